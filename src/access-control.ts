@@ -0,0 +1,216 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { realpathSync } from 'fs';
+import { IncomingHttpHeaders } from 'http';
+import * as path from 'path';
+import { AccessPolicy, AccessQuota, ServerConfig } from './config';
+import { DocsUser } from './docs-provider';
+import { ToolCall } from './tool-schemas';
+
+// Appelant d'un outil : utilisateur configuré, client MCP, ou anonyme
+export interface ClientIdentity {
+  // Identifiant transmis à Kapa (user.unique_client_id) et clé des quotas
+  id: string;
+  source: 'token' | 'config' | 'client' | 'anonymous';
+  // Utilisateur de access.users dont les droits et quotas s'appliquent
+  user?: string;
+  metadata: Record<string, string>;
+}
+
+// Informations envoyées par le client MCP à l'initialisation
+export interface ClientInfo {
+  name: string;
+  version: string;
+}
+
+// Fichiers locaux lus par un outil : dossier du projet et fichier de logs (relatif au projet)
+export interface LocalPaths {
+  project_path?: string;
+  log_file?: string;
+}
+
+export class AccessError extends Error {
+  constructor(message: string, public retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'AccessError';
+  }
+}
+
+const ANONYMOUS_ID = 'mcp-server-user';
+// Quota partagé par tous les appelants sans utilisateur : le nom du client MCP est choisi par le client
+const ANONYMOUS_QUOTA_KEY = 'anonymous callers';
+// Outils qui n'interrogent aucun fournisseur : pas décomptés des quotas
+const QUOTA_FREE_TOOLS = new Set(['list_doc_sections', 'search_strapi_docs_local', 'cache_stats', 'clear_cache', 'usage_report']);
+const QUOTA_WINDOWS: Array<{ key: keyof AccessQuota; ms: number; label: string }> = [
+  { key: 'per_minute', ms: 60 * 1000, label: 'minute' },
+  { key: 'per_day', ms: 24 * 60 * 60 * 1000, label: 'day' },
+];
+
+// Requêtes décomptées avant l'appel : une par question d'un lot
+// plan_strapi_migration pose une question par catégorie trouvée : décompté après l'analyse du projet (consume)
+export function getQuotaCost(call: ToolCall): number {
+  if (QUOTA_FREE_TOOLS.has(call.name) || call.name === 'plan_strapi_migration') return 0;
+  return call.name === 'ask_strapi_docs_batch' ? call.args.questions.length : 1;
+}
+
+function allows(list: string[] | undefined, value: string): boolean {
+  return !list || list.includes('*') || list.includes(value);
+}
+
+// Chemin réel ; un chemin absent est gardé tel quel (l'outil signale l'erreur)
+function realPath(filePath: string): string {
+  try {
+    return realpathSync(filePath);
+  } catch {
+    return filePath;
+  }
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+// Fenêtres glissantes par identité : horodatages des requêtes du dernier jour
+export class QuotaTracker {
+  private usage = new Map<string, number[]>();
+
+  consume(id: string, quota: AccessQuota, cost: number, now: number = Date.now()): void {
+    const longest = Math.max(...QUOTA_WINDOWS.filter(window => quota[window.key]).map(window => window.ms), 0);
+    if (cost === 0 || longest === 0) return;
+
+    const timestamps = (this.usage.get(id) || []).filter(timestamp => timestamp > now - longest);
+    for (const window of QUOTA_WINDOWS) {
+      const limit = quota[window.key];
+      if (!limit) continue;
+
+      const inWindow = timestamps.filter(timestamp => timestamp > now - window.ms);
+      if (inWindow.length + cost > limit) {
+        // Attente jusqu'à ce que assez de requêtes sortent de la fenêtre
+        const freed = inWindow[Math.max(0, inWindow.length + cost - limit - 1)];
+        const retryAfterSeconds = freed !== undefined ? Math.max(1, Math.ceil((freed + window.ms - now) / 1000)) : undefined;
+        this.usage.set(id, timestamps);
+        throw new AccessError(
+          `Quota exceeded for ${id}: ${limit} requests per ${window.label}${cost > 1 ? ` (this call needs ${cost})` : ''}.`
+            + (retryAfterSeconds !== undefined && cost <= limit ? ` Try again in ${retryAfterSeconds}s.` : ''),
+          retryAfterSeconds
+        );
+      }
+    }
+
+    this.usage.set(id, [...timestamps, ...Array.from({ length: cost }, () => now)]);
+  }
+}
+
+// Identité des appelants, droits (outils, projets) et quotas, vérifiés avant tout appel à un fournisseur
+export class AccessController {
+  private quotas = new QuotaTracker();
+  private tokens: Array<{ digest: Buffer; user: string }>;
+
+  constructor(private access: ServerConfig['access']) {
+    this.tokens = Object.values(access.users).flatMap(user => user.tokens.map(token => ({ digest: digest(token), user: user.name })));
+  }
+
+  // Jeton HTTP (Authorization: Bearer), puis utilisateur configuré, puis nom du client MCP
+  identify(headers?: IncomingHttpHeaders, client?: ClientInfo): ClientIdentity {
+    const clientMetadata: Record<string, string> = client ? { client_name: client.name, client_version: client.version } : {};
+    const authorization = headers?.authorization;
+
+    if (authorization) {
+      const match = authorization.match(/^Bearer\s+(.+)$/i);
+      const tokenDigest = match && digest(match[1].trim());
+      const owner = tokenDigest && this.tokens.find(token => timingSafeEqual(token.digest, tokenDigest));
+      if (!owner) {
+        throw new AccessError('Invalid access token');
+      }
+      return this.forUser(owner.user, 'token', clientMetadata);
+    }
+
+    if (this.access.user) {
+      return this.forUser(this.access.user, 'config', clientMetadata);
+    }
+
+    return client
+      ? { id: `client:${client.name}`, source: 'client', metadata: { identity_source: 'client', ...clientMetadata } }
+      : { id: ANONYMOUS_ID, source: 'anonymous', metadata: { identity_source: 'anonymous' } };
+  }
+
+  isToolAllowed(identity: ClientIdentity, tool: string): boolean {
+    const policy = this.getPolicy(identity);
+    return !!policy && allows(policy.tools, tool);
+  }
+
+  // Refuse l'appel (AccessError) si l'outil ou le projet n'est pas autorisé, ou si le quota est dépassé
+  authorize(identity: ClientIdentity, tool: string, project: string | undefined, cost: number): void {
+    const policy = this.getPolicy(identity);
+    if (!policy) {
+      throw new AccessError('Access denied: anonymous access is disabled. Send an access token (Authorization: Bearer <token>).');
+    }
+    if (!allows(policy.tools, tool)) {
+      throw new AccessError(`Access denied: ${identity.id} may not use ${tool}`);
+    }
+    if (project && !allows(policy.projects, project)) {
+      throw new AccessError(`Access denied: ${identity.id} may not use the "${project}" project`);
+    }
+    this.consume(identity, cost);
+  }
+
+  // Décompte des requêtes connues seulement pendant l'appel ; AccessError si le quota est dépassé
+  consume(identity: ClientIdentity, cost: number): void {
+    const quota = this.getPolicy(identity)?.quota;
+    if (quota) {
+      this.quotas.consume(identity.user ?? ANONYMOUS_QUOTA_KEY, quota, cost);
+    }
+  }
+
+  // Lecture de fichiers par les outils : sous access.files_root s'il est défini, sinon seulement hors HTTP
+  checkLocalPaths(paths: LocalPaths, remote: boolean): void {
+    const requested = [
+      paths.project_path && path.resolve(paths.project_path),
+      paths.log_file && path.resolve(paths.project_path || '.', paths.log_file),
+    ].filter((value): value is string => !!value);
+    if (requested.length === 0) return;
+
+    const root = this.access.files_root;
+    if (!root) {
+      if (remote) {
+        throw new AccessError('Access denied: project_path and log_file are disabled over HTTP. Set access.files_root (STRAPI_MCP_FILES_ROOT) to allow a directory.');
+      }
+      return;
+    }
+
+    // Liens symboliques suivis : un lien dans le dossier ne doit pas mener ailleurs
+    const realRoot = realPath(root);
+    requested.forEach(requestedPath => {
+      const resolved = realPath(requestedPath);
+      if (resolved !== realRoot && !resolved.startsWith(`${realRoot}${path.sep}`)) {
+        throw new AccessError(`Access denied: ${requestedPath} is outside ${root}`);
+      }
+    });
+  }
+
+  toDocsUser(identity: ClientIdentity): DocsUser {
+    return { id: identity.id, metadata: identity.metadata };
+  }
+
+  // Politique de l'utilisateur (les champs absents viennent de access.default) ; undefined si l'appel est refusé
+  private getPolicy(identity: ClientIdentity): AccessPolicy | undefined {
+    if (!identity.user) {
+      return this.access.allow_anonymous ? this.access.default : undefined;
+    }
+
+    const { tools, projects, quota } = this.access.users[identity.user];
+    return {
+      tools: tools ?? this.access.default.tools,
+      projects: projects ?? this.access.default.projects,
+      quota: quota ?? this.access.default.quota,
+    };
+  }
+
+  private forUser(name: string, source: 'token' | 'config', clientMetadata: Record<string, string>): ClientIdentity {
+    return {
+      id: name,
+      source,
+      user: name,
+      metadata: { ...this.access.users[name].metadata, identity_source: source, ...clientMetadata },
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ServerConfig } from './config';
+import { errorMessage, logger } from './logger';
+import { Redactor, createRedactor } from './redact';
+
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  // Identité de l'appelant (voir access-control.ts)
+  user?: string;
+  arguments: Record<string, unknown>;
+  status: 'success' | 'error';
+  duration_ms: number;
+  provider?: string;
+  thread_id?: string;
+  question_answer_id?: string;
+  is_uncertain?: boolean;
+  cached?: boolean;
+  error?: string;
+}
+
+// Journal d'audit en ajout seul : une ligne JSON par appel d'outil
+export class AuditLog {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(public readonly filePath: string, private redactor: Redactor) {}
+
+  record(entry: AuditEntry): Promise<void> {
+    const line = JSON.stringify({
+      ...entry,
+      arguments: this.redactValue(entry.arguments),
+      ...(entry.error && { error: this.redactor.apply(entry.error) }),
+    });
+
+    // Écritures sérialisées pour garder l'ordre des lignes
+    this.pendingWrite = this.pendingWrite
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, `${line}\n`, { encoding: 'utf-8', mode: 0o600 });
+      })
+      .catch((error: any) => {
+        logger.error(`[Audit] Failed to write audit log ${this.filePath}`, { error: errorMessage(error) });
+      });
+
+    return this.pendingWrite;
+  }
+
+  private redactValue(value: any): any {
+    if (typeof value === 'string') {
+      return this.redactor.apply(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.redactValue(item)]));
+    }
+    return value;
+  }
+}
+
+// audit_log (STRAPI_MCP_AUDIT_LOG) ; masquage toujours actif, même avec redaction.mode=off
+export function createAuditLog(config: Pick<ServerConfig, 'audit_log' | 'redaction'>): AuditLog | undefined {
+  if (!config.audit_log) {
+    return undefined;
+  }
+  return new AuditLog(config.audit_log, createRedactor({ ...config.redaction, mode: 'redact' }));
+}
@@ -0,0 +1,221 @@
+import { promises as fs, readFileSync } from 'fs';
+import * as path from 'path';
+import { ServerConfig } from './config';
+import { logger } from './logger';
+
+export interface CacheEntry<T> {
+  value: T;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface CacheKeyParts {
+  query: string;
+  context?: string;
+  source_ids_include?: string[];
+  integration_id?: string;
+  // Projet Kapa : deux projets ne répondent pas la même chose
+  project_id?: string;
+  // Appelant : les identifiants de thread et de réponse mis en cache ne servent qu'à lui
+  user?: string;
+}
+
+export interface CacheStats {
+  store: string;
+  entries: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  ttlSeconds: number;
+}
+
+// Interface commune aux stockages du cache (mémoire, disque...)
+export interface CacheStore<T> {
+  readonly name: string;
+  get(key: string): Promise<CacheEntry<T> | undefined>;
+  set(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<number>;
+  size(): Promise<number>;
+}
+
+// LRU en mémoire : la Map conserve l'ordre d'insertion, l'entrée la plus ancienne est en tête
+export class MemoryLRUStore<T> implements CacheStore<T> {
+  readonly name = 'memory';
+  private entries = new Map<string, CacheEntry<T>>();
+
+  constructor(private maxEntries: number = 500) {}
+
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<number> {
+    const count = this.entries.size;
+    this.entries.clear();
+    return count;
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+
+  snapshot(): Record<string, CacheEntry<T>> {
+    return Object.fromEntries(this.entries);
+  }
+}
+
+// Stockage JSON sur disque : LRU en mémoire persistée dans un fichier à chaque modification
+export class JsonFileStore<T> implements CacheStore<T> {
+  readonly name = 'file';
+  private memory: MemoryLRUStore<T>;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string, maxEntries: number = 500) {
+    this.memory = new MemoryLRUStore<T>(maxEntries);
+
+    try {
+      const content = JSON.parse(readFileSync(filePath, 'utf-8'));
+      for (const [key, entry] of Object.entries<CacheEntry<T>>(content.entries || {})) {
+        this.memory.set(key, entry);
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.warn(`[Cache] Ignoring unreadable cache file ${filePath}`, { error: error.message });
+      }
+    }
+  }
+
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    return this.memory.get(key);
+  }
+
+  async set(key: string, entry: CacheEntry<T>): Promise<void> {
+    await this.memory.set(key, entry);
+    await this.persist();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.memory.delete(key);
+    await this.persist();
+  }
+
+  async clear(): Promise<number> {
+    const count = await this.memory.clear();
+    await this.persist();
+    return count;
+  }
+
+  async size(): Promise<number> {
+    return this.memory.size();
+  }
+
+  private persist(): Promise<void> {
+    // Écritures sérialisées pour ne pas corrompre le fichier
+    this.pendingWrite = this.pendingWrite
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(this.filePath, JSON.stringify({ entries: this.memory.snapshot() }), 'utf-8');
+      })
+      .catch((error: any) => {
+        logger.error(`[Cache] Failed to write cache file ${this.filePath}`, { error: error.message });
+      });
+
+    return this.pendingWrite;
+  }
+}
+
+export class ResponseCache<T> {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private store: CacheStore<T>, private ttlSeconds: number = 3600) {}
+
+  // Clé normalisée : casse et espaces ignorés, filtres de sources triés
+  static buildKey(parts: CacheKeyParts): string {
+    const normalize = (value?: string) => (value || '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+    return JSON.stringify([
+      normalize(parts.query),
+      normalize(parts.context),
+      [...(parts.source_ids_include || [])].sort(),
+      parts.integration_id || '',
+      parts.project_id || '',
+      parts.user || '',
+    ]);
+  }
+
+  async get(parts: CacheKeyParts): Promise<CacheEntry<T> | undefined> {
+    const key = ResponseCache.buildKey(parts);
+    const entry = await this.store.get(key);
+
+    if (entry && entry.expiresAt > Date.now()) {
+      this.hits += 1;
+      return entry;
+    }
+
+    if (entry) {
+      await this.store.delete(key);
+    }
+    this.misses += 1;
+    return undefined;
+  }
+
+  async set(parts: CacheKeyParts, value: T): Promise<void> {
+    const now = Date.now();
+    await this.store.set(ResponseCache.buildKey(parts), {
+      value,
+      createdAt: now,
+      expiresAt: now + this.ttlSeconds * 1000,
+    });
+  }
+
+  async clear(): Promise<number> {
+    return this.store.clear();
+  }
+
+  async stats(): Promise<CacheStats> {
+    const total = this.hits + this.misses;
+
+    return {
+      store: this.store.name,
+      entries: await this.store.size(),
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total > 0 ? this.hits / total : 0,
+      ttlSeconds: this.ttlSeconds,
+    };
+  }
+}
+
+// Création du cache selon cache.mode (KAPA_CACHE) : memory | file | off
+export function createResponseCache<T>(options: ServerConfig['cache']): ResponseCache<T> | undefined {
+  switch (options.mode) {
+    case 'off':
+      return undefined;
+    case 'file':
+      return new ResponseCache<T>(new JsonFileStore<T>(options.file, options.max_entries), options.ttl_seconds);
+    case 'memory':
+      return new ResponseCache<T>(new MemoryLRUStore<T>(options.max_entries), options.ttl_seconds);
+  }
+}
@@ -0,0 +1,180 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export type CodeLanguage = 'js' | 'ts';
+
+export interface CodeExampleKind {
+  name: string;
+  title: string;
+  // Nom utilisé dans le chemin quand aucun n'est fourni
+  defaultName: string;
+  // Chemin dans un projet Strapi : {name} et {ext} sont remplacés
+  path: (major: number) => string;
+}
+
+export interface CodeBlock {
+  language: string;
+  code: string;
+  // Attribut title="..." des blocs de la documentation (souvent le chemin du fichier)
+  title?: string;
+}
+
+export interface CodeExample extends CodeBlock {
+  file_path?: string;
+  source_url?: string;
+}
+
+const pluginServerPath = (file: string) => (major: number) =>
+  major >= 5 ? `src/plugins/{name}/server/src/${file}.{ext}` : `src/plugins/{name}/server/${file}.{ext}`;
+
+export const CODE_EXAMPLE_KINDS: CodeExampleKind[] = [
+  { name: 'controller', title: 'Controller', defaultName: 'article', path: () => 'src/api/{name}/controllers/{name}.{ext}' },
+  { name: 'service', title: 'Service', defaultName: 'article', path: () => 'src/api/{name}/services/{name}.{ext}' },
+  { name: 'route', title: 'Routes', defaultName: 'article', path: () => 'src/api/{name}/routes/{name}.{ext}' },
+  { name: 'policy', title: 'Policy', defaultName: 'is-owner', path: () => 'src/policies/{name}.{ext}' },
+  { name: 'middleware', title: 'Middleware', defaultName: 'request-logger', path: () => 'src/middlewares/{name}.{ext}' },
+  {
+    name: 'lifecycle-hook',
+    title: 'Lifecycle hook',
+    defaultName: 'article',
+    path: () => 'src/api/{name}/content-types/{name}/lifecycles.{ext}',
+  },
+  { name: 'plugin-register', title: 'Plugin register', defaultName: 'my-plugin', path: pluginServerPath('register') },
+  { name: 'plugin-bootstrap', title: 'Plugin bootstrap', defaultName: 'my-plugin', path: pluginServerPath('bootstrap') },
+  { name: 'cron-task', title: 'Cron task', defaultName: 'cron-tasks', path: () => 'config/cron-tasks.{ext}' },
+];
+
+export const CODE_EXAMPLE_KIND_NAMES = CODE_EXAMPLE_KINDS.map(kind => kind.name);
+
+// Alias des langages des blocs de code vers un nom unique
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  javascript: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  typescript: 'typescript',
+  sh: 'bash',
+  shell: 'bash',
+  console: 'bash',
+  bash: 'bash',
+  yml: 'yaml',
+};
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([^\s`{]*)(.*)$/;
+
+export function getCodeExampleKind(name: string): CodeExampleKind {
+  const kind = CODE_EXAMPLE_KINDS.find(item => item.name === name);
+  if (!kind) {
+    throw new Error(`Unknown code example kind "${name}". Expected one of: ${CODE_EXAMPLE_KIND_NAMES.join(', ')}`);
+  }
+  return kind;
+}
+
+export function normalizeCodeLanguage(language: string): string {
+  const key = language.toLowerCase();
+  return LANGUAGE_ALIASES[key] || key || 'text';
+}
+
+function toCodeLanguage(language: string): CodeLanguage | undefined {
+  const normalized = normalizeCodeLanguage(language);
+  return normalized === 'javascript' ? 'js' : normalized === 'typescript' ? 'ts' : undefined;
+}
+
+export function getCodeExamplePath(kind: CodeExampleKind, major: number, language: CodeLanguage, name?: string): string {
+  return kind.path(major)
+    .replace(/\{name\}/g, name || kind.defaultName)
+    .replace(/\{ext\}/g, language);
+}
+
+// Blocs de code délimités (``` ou ~~~) d'une réponse markdown, dans l'ordre
+export function extractCodeBlocks(markdown: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  let open: { fence: string; block: CodeBlock; lines: string[] } | undefined;
+
+  for (const line of markdown.split('\n')) {
+    if (!open) {
+      const match = line.match(FENCE);
+      if (match) {
+        const title = match[3].match(/title=["']?([^"'\s]+)["']?/)?.[1];
+        open = {
+          fence: match[1],
+          block: { language: normalizeCodeLanguage(match[2]), code: '', ...(title && { title }) },
+          lines: [],
+        };
+      }
+      continue;
+    }
+
+    // Fermeture : même caractère, au moins aussi long, sans texte après
+    const trimmed = line.trim();
+    if (trimmed[0] === open.fence[0] && trimmed.length >= open.fence.length && /^(`+|~+)$/.test(trimmed)) {
+      blocks.push({ ...open.block, code: open.lines.join('\n') });
+      open = undefined;
+    } else {
+      open.lines.push(line);
+    }
+  }
+
+  // Bloc non fermé (réponse tronquée) : gardé tel quel
+  if (open && open.lines.length > 0) {
+    blocks.push({ ...open.block, code: open.lines.join('\n') });
+  }
+  return blocks.filter(block => block.code.trim());
+}
+
+// Texte de la réponse sans les blocs de code
+export function stripCodeBlocks(markdown: string): string {
+  const lines: string[] = [];
+  let fence: string | undefined;
+
+  for (const line of markdown.split('\n')) {
+    const trimmed = line.trim();
+    if (!fence) {
+      const match = line.match(FENCE);
+      if (match) {
+        fence = match[1];
+      } else {
+        lines.push(line);
+      }
+    } else if (trimmed[0] === fence[0] && trimmed.length >= fence.length && /^(`+|~+)$/.test(trimmed)) {
+      fence = undefined;
+    }
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Chemin cible de chaque bloc JS/TS : le titre du bloc s'il y en a un, sinon le chemin type du fichier
+export function toCodeExamples(
+  blocks: CodeBlock[],
+  kind: CodeExampleKind,
+  major: number,
+  name?: string,
+  sourceUrl?: string
+): CodeExample[] {
+  return blocks.map(block => {
+    const language = toCodeLanguage(block.language);
+    const filePath = block.title?.replace(/^\.\//, '') || (language && getCodeExamplePath(kind, major, language, name));
+
+    return {
+      ...block,
+      ...(filePath && { file_path: filePath }),
+      ...(sourceUrl && { source_url: sourceUrl }),
+    };
+  });
+}
+
+// TypeScript si le projet a un tsconfig.json
+export async function detectProjectLanguage(projectPath?: string): Promise<CodeLanguage | undefined> {
+  if (!projectPath) {
+    return undefined;
+  }
+
+  try {
+    await fs.access(path.join(path.resolve(projectPath), 'tsconfig.json'));
+    return 'ts';
+  } catch {
+    return 'js';
+  }
+}
@@ -0,0 +1,601 @@
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { DOC_SECTION_NAMES } from './doc-sections';
+import { PROVIDER_NAMES, ProviderName, parseProviderNames } from './docs-provider';
+import { DEFAULT_INDEX_PATH } from './local-index';
+import { VersionMismatchMode } from './strapi-version';
+import { isToolName } from './tool-schemas';
+
+export interface KapaProjectConfig {
+  name: string;
+  api_key: string;
+  project_id: string;
+  api_url: string;
+  description?: string;
+  // Sources Kapa par version majeure ("v4", "v5") ou par section de la documentation ("cloud"...)
+  source_ids: Record<string, string[]>;
+}
+
+export interface AccessQuota {
+  per_minute?: number;
+  per_day?: number;
+}
+
+// Outils et projets autorisés ("*" ou absent : tous), et quota de requêtes
+export interface AccessPolicy {
+  tools?: string[];
+  projects?: string[];
+  quota?: AccessQuota;
+}
+
+export interface AccessUserConfig extends AccessPolicy {
+  name: string;
+  // Jetons reconnus dans l'en-tête Authorization: Bearer (transport HTTP)
+  tokens: string[];
+  // Transmises à Kapa avec l'identifiant de l'utilisateur
+  metadata: Record<string, string>;
+}
+
+export interface ServerConfig {
+  // Fichier chargé, absent si la configuration vient seulement de l'environnement
+  file?: string;
+  providers: ProviderName[];
+  kapa: {
+    default_project: string;
+    streaming: boolean;
+    requests_per_minute: number;
+    max_concurrency: number;
+    max_retries: number;
+    projects: Record<string, KapaProjectConfig>;
+  };
+  local_llm?: {
+    url: string;
+    model: string;
+    api_key?: string;
+    context_sections: number;
+  };
+  server: {
+    name: string;
+    transport: 'stdio' | 'http';
+    host: string;
+    port: number;
+    // Test des fournisseurs au démarrage : une vraie question Kapa, facturée, donc sur demande
+    startup_check: boolean;
+    // Sessions HTTP : fermées après ce délai sans requête, et nombre maximal de sessions ouvertes
+    session_idle_timeout_seconds: number;
+    max_sessions: number;
+  };
+  // Cache des réponses Kapa
+  cache: {
+    mode: 'memory' | 'file' | 'off';
+    ttl_seconds: number;
+    max_entries: number;
+    file: string;
+  };
+  // Post-traitement des sources : vérification des liens et son cache
+  sources: {
+    link_check: boolean;
+    link_cache: 'memory' | 'file';
+    link_cache_file: string;
+    link_cache_ttl_seconds: number;
+    link_timeout_ms: number;
+  };
+  plugins: {
+    catalog: 'npm' | 'file';
+    catalog_file: string;
+    registry_url: string;
+  };
+  redaction: {
+    mode: 'redact' | 'strict' | 'off';
+    rules_file?: string;
+  };
+  // Index local de la documentation et repli sur cet index quand les fournisseurs échouent
+  local_index: {
+    file: string;
+    fallback: boolean;
+  };
+  // Sources d'une autre version majeure que le projet : signalées (flag) ou retirées (filter)
+  version_mismatch: VersionMismatchMode;
+  prompts_file?: string;
+  audit_log?: string;
+  access: {
+    // Utilisateur des appels sans jeton (ex. en stdio)
+    user?: string;
+    // Appels sans utilisateur configuré : autorisés avec la politique par défaut, ou refusés
+    allow_anonymous: boolean;
+    // Dossier où les outils peuvent lire project_path et log_file ; sans lui, ces arguments sont refusés en HTTP
+    files_root?: string;
+    default: AccessPolicy;
+    users: Record<string, AccessUserConfig>;
+  };
+}
+
+// Options de la ligne de commande, prioritaires sur l'environnement et le fichier
+export interface ConfigOverrides {
+  config?: string;
+  transport?: string;
+  host?: string;
+  port?: string;
+}
+
+export const DEFAULT_CONFIG_FILES = ['strapi-mcp.config.json', 'strapi-mcp.config.yaml', 'strapi-mcp.config.yml'];
+export const DEFAULT_PROJECT_NAME = 'default';
+const DEFAULT_KAPA_API_URL = 'https://api.kapa.ai';
+const DEFAULT_NPM_REGISTRY_URL = 'https://registry.npmjs.org';
+
+export class ConfigError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(issues.length > 0 ? `${message}:\n${issues.map(issue => `  - ${issue}`).join('\n')}` : message);
+    this.name = 'ConfigError';
+  }
+}
+
+const SOURCE_IDS_KEY = z.string().refine(
+  key => /^v\d+$/.test(key) || DOC_SECTION_NAMES.includes(key),
+  key => ({ message: `Unknown source IDs key "${key}". Expected a major version (v4, v5) or a docs section (${DOC_SECTION_NAMES.join(', ')})` })
+);
+
+const KapaProjectSchema = z.object({
+  api_key: z.string().min(1).optional(),
+  // Nom d'une variable d'environnement contenant la clé, pour ne pas l'écrire dans le fichier
+  api_key_env: z.string().min(1).optional(),
+  project_id: z.string().min(1),
+  api_url: z.string().url().optional(),
+  description: z.string().optional(),
+  source_ids: z.record(SOURCE_IDS_KEY, z.array(z.string().min(1))).optional(),
+}).strict();
+
+const AccessPolicySchema = z.object({
+  tools: z.array(z.string().min(1)).optional(),
+  projects: z.array(z.string().min(1)).optional(),
+  quota: z.object({
+    per_minute: z.number().int().positive().optional(),
+    per_day: z.number().int().positive().optional(),
+  }).strict().optional(),
+});
+
+const ConfigFileSchema = z.object({
+  providers: z.array(z.enum(PROVIDER_NAMES)).min(1).optional(),
+  kapa: z.object({
+    default_project: z.string().min(1).optional(),
+    streaming: z.boolean().optional(),
+    requests_per_minute: z.number().int().positive().optional(),
+    max_concurrency: z.number().int().positive().optional(),
+    max_retries: z.number().int().min(0).optional(),
+    projects: z.record(
+      z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'Project names may only contain letters, digits, "-" and "_"'),
+      KapaProjectSchema
+    ).optional(),
+  }).strict().optional(),
+  local_llm: z.object({
+    url: z.string().url().optional(),
+    model: z.string().min(1).optional(),
+    api_key: z.string().optional(),
+    context_sections: z.number().int().positive().optional(),
+  }).strict().optional(),
+  server: z.object({
+    name: z.string().min(1).optional(),
+    transport: z.enum(['stdio', 'http']).optional(),
+    host: z.string().min(1).optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    startup_check: z.boolean().optional(),
+    session_idle_timeout: z.number().int().positive().optional(),
+    max_sessions: z.number().int().positive().optional(),
+  }).strict().optional(),
+  cache: z.object({
+    mode: z.enum(['memory', 'file', 'off']).optional(),
+    ttl: z.number().int().positive().optional(),
+    max_entries: z.number().int().positive().optional(),
+    file: z.string().min(1).optional(),
+  }).strict().optional(),
+  sources: z.object({
+    link_check: z.boolean().optional(),
+    link_cache: z.enum(['memory', 'file']).optional(),
+    link_cache_file: z.string().min(1).optional(),
+    link_cache_ttl: z.number().int().positive().optional(),
+    link_timeout: z.number().int().positive().optional(),
+  }).strict().optional(),
+  plugins: z.object({
+    catalog: z.enum(['npm', 'file']).optional(),
+    catalog_file: z.string().min(1).optional(),
+    registry_url: z.string().url().optional(),
+  }).strict().optional(),
+  redaction: z.object({
+    mode: z.enum(['redact', 'strict', 'off']).optional(),
+    rules_file: z.string().min(1).optional(),
+  }).strict().optional(),
+  local_index: z.object({
+    file: z.string().min(1).optional(),
+    fallback: z.boolean().optional(),
+  }).strict().optional(),
+  version_mismatch: z.enum(['flag', 'filter']).optional(),
+  prompts_file: z.string().min(1).optional(),
+  audit_log: z.string().min(1).optional(),
+  access: z.object({
+    user: z.string().min(1).optional(),
+    allow_anonymous: z.boolean().optional(),
+    files_root: z.string().min(1).optional(),
+    default: AccessPolicySchema.strict().optional(),
+    users: z.record(
+      z.string().regex(/^[a-z0-9][a-z0-9._@-]*$/i, 'User names may only contain letters, digits, ".", "@", "-" and "_"'),
+      AccessPolicySchema.extend({
+        token: z.string().min(16, 'Tokens must be at least 16 characters').optional(),
+        // Nom d'une variable d'environnement contenant le jeton, pour ne pas l'écrire dans le fichier
+        token_env: z.string().min(1).optional(),
+        metadata: z.record(z.string()).optional(),
+      }).strict()
+    ).optional(),
+  }).strict().optional(),
+}).strict();
+
+type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+function formatIssues(error: z.ZodError, source: string): string[] {
+  return error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : source}: ${issue.message}`);
+}
+
+function parseList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// Variables d'environnement des réglages du fichier : appliquées par-dessus le fichier puis validées par le même schéma
+interface EnvSetting {
+  variable: string;
+  path: [string, string?];
+  type: 'string' | 'number' | 'boolean' | 'choice';
+  // Anciennes valeurs acceptées (ex. KAPA_CACHE=none)
+  aliases?: Record<string, string>;
+}
+
+const ENV_SETTINGS: EnvSetting[] = [
+  { variable: 'KAPA_STREAMING', path: ['kapa', 'streaming'], type: 'boolean' },
+  { variable: 'KAPA_CACHE', path: ['cache', 'mode'], type: 'choice', aliases: { false: 'off', none: 'off' } },
+  { variable: 'KAPA_CACHE_TTL', path: ['cache', 'ttl'], type: 'number' },
+  { variable: 'KAPA_CACHE_MAX_ENTRIES', path: ['cache', 'max_entries'], type: 'number' },
+  { variable: 'KAPA_CACHE_FILE', path: ['cache', 'file'], type: 'string' },
+  { variable: 'SOURCE_LINK_CHECK', path: ['sources', 'link_check'], type: 'boolean' },
+  { variable: 'SOURCE_LINK_CACHE', path: ['sources', 'link_cache'], type: 'choice' },
+  { variable: 'SOURCE_LINK_CACHE_FILE', path: ['sources', 'link_cache_file'], type: 'string' },
+  { variable: 'SOURCE_LINK_CACHE_TTL', path: ['sources', 'link_cache_ttl'], type: 'number' },
+  { variable: 'SOURCE_LINK_TIMEOUT', path: ['sources', 'link_timeout'], type: 'number' },
+  { variable: 'STRAPI_PLUGIN_CATALOG', path: ['plugins', 'catalog'], type: 'choice' },
+  { variable: 'STRAPI_PLUGIN_CATALOG_FILE', path: ['plugins', 'catalog_file'], type: 'string' },
+  { variable: 'NPM_REGISTRY_URL', path: ['plugins', 'registry_url'], type: 'string' },
+  { variable: 'REDACTION_MODE', path: ['redaction', 'mode'], type: 'choice' },
+  { variable: 'STRAPI_MCP_REDACTION_RULES', path: ['redaction', 'rules_file'], type: 'string' },
+  { variable: 'STRAPI_DOCS_INDEX', path: ['local_index', 'file'], type: 'string' },
+  { variable: 'LOCAL_FALLBACK', path: ['local_index', 'fallback'], type: 'boolean' },
+  { variable: 'STRAPI_VERSION_MISMATCH', path: ['version_mismatch'], type: 'choice' },
+  { variable: 'STRAPI_MCP_PROMPTS_FILE', path: ['prompts_file'], type: 'string' },
+  { variable: 'STRAPI_MCP_AUDIT_LOG', path: ['audit_log'], type: 'string' },
+  { variable: 'STARTUP_CHECK', path: ['server', 'startup_check'], type: 'boolean' },
+  { variable: 'MCP_HTTP_SESSION_TIMEOUT', path: ['server', 'session_idle_timeout'], type: 'number' },
+  { variable: 'MCP_HTTP_MAX_SESSIONS', path: ['server', 'max_sessions'], type: 'number' },
+  { variable: 'STRAPI_MCP_ALLOW_ANONYMOUS', path: ['access', 'allow_anonymous'], type: 'boolean' },
+  { variable: 'STRAPI_MCP_FILES_ROOT', path: ['access', 'files_root'], type: 'string' },
+];
+
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, on: true, '1': true, false: false, off: false, '0': false };
+
+// Valeur typée pour le schéma ; une valeur invalide reste une chaîne et le schéma la refuse
+function parseEnvSetting(value: string, setting: EnvSetting): unknown {
+  const text = value.trim();
+  switch (setting.type) {
+    case 'number':
+      return /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : text;
+    case 'boolean':
+      return BOOLEAN_VALUES[text.toLowerCase()] ?? text;
+    case 'choice':
+      return setting.aliases?.[text.toLowerCase()] ?? text.toLowerCase();
+    default:
+      return text;
+  }
+}
+
+function applyEnvSettings(fromFile: ConfigFile, env: NodeJS.ProcessEnv, issues: string[]): ConfigFile {
+  const merged: Record<string, any> = structuredClone(fromFile);
+  const variables = new Map<string, EnvSetting>();
+
+  ENV_SETTINGS.filter(setting => env[setting.variable] !== undefined).forEach(setting => {
+    const [section, key] = setting.path;
+    const value = parseEnvSetting(env[setting.variable]!, setting);
+    if (key) {
+      merged[section] = { ...merged[section], [key]: value };
+    } else {
+      merged[section] = value;
+    }
+    variables.set(setting.path.join('.'), setting);
+  });
+
+  const result = ConfigFileSchema.safeParse(merged);
+  if (result.success) {
+    return result.data;
+  }
+
+  // Le fichier est déjà validé : les erreurs restantes viennent des variables
+  result.error.issues.forEach(issue => {
+    const setting = variables.get(issue.path.join('.'));
+    issues.push(setting
+      ? `${setting.variable}: ${issue.message}, got "${env[setting.variable]}"`
+      : `${issue.path.join('.')}: ${issue.message}`);
+  });
+  return fromFile;
+}
+
+function parseNumber(value: string, variable: string, issues: string[], min: number = 1, max: number = Infinity): number | undefined {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isInteger(number) || number < min || number > max) {
+    issues.push(`${variable}: expected an integer${max === Infinity ? ` >= ${min}` : ` between ${min} and ${max}`}, got "${value}"`);
+    return undefined;
+  }
+  return number;
+}
+
+function readConfigFile(filePath: string): ConfigFile {
+  let content: string;
+  try {
+    content = readFileSync(filePath, 'utf-8');
+  } catch (error: any) {
+    throw new ConfigError(`Cannot read config file ${filePath}: ${error.message}`);
+  }
+
+  let data: unknown;
+  try {
+    data = ['.yaml', '.yml'].includes(path.extname(filePath).toLowerCase())
+      ? parseYaml(content)
+      : JSON.parse(content);
+  } catch (error: any) {
+    throw new ConfigError(`Invalid config file ${filePath}: ${error.message}`);
+  }
+
+  const result = ConfigFileSchema.safeParse(data ?? {});
+  if (!result.success) {
+    throw new ConfigError(`Invalid config file ${filePath}`, formatIssues(result.error, 'config'));
+  }
+  return result.data;
+}
+
+// --config, puis STRAPI_MCP_CONFIG, puis strapi-mcp.config.{json,yaml,yml} s'il existe
+function findConfigFile(overrides: ConfigOverrides, env: NodeJS.ProcessEnv, cwd: string): string | undefined {
+  const explicit = overrides.config || env.STRAPI_MCP_CONFIG;
+  if (explicit) {
+    return path.resolve(cwd, explicit);
+  }
+  return DEFAULT_CONFIG_FILES.map(file => path.join(cwd, file)).find(file => existsSync(file));
+}
+
+// KAPA_SOURCE_IDS_V5, KAPA_SOURCE_IDS_REST_API... : sources du projet par défaut
+function readEnvSourceIds(env: NodeJS.ProcessEnv): Record<string, string[]> {
+  const sourceIds: Record<string, string[]> = {};
+  Object.entries(env).forEach(([name, value]) => {
+    const match = name.match(/^KAPA_SOURCE_IDS_(\w+)$/);
+    const ids = parseList(value || '');
+    if (match && ids.length > 0) {
+      sourceIds[match[1].toLowerCase().replace(/_/g, '-')] = ids;
+    }
+  });
+  return sourceIds;
+}
+
+// Fichier de configuration + variables d'environnement + options de la ligne de commande
+export function loadConfig(
+  overrides: ConfigOverrides = {},
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd()
+): ServerConfig {
+  // Une variable vide (ex. "KAPA_STREAMING=" dans .env) compte comme absente
+  env = Object.fromEntries(Object.entries(env).filter(([, value]) => value !== undefined && value.trim() !== ''));
+  const file = findConfigFile(overrides, env, cwd);
+  const issues: string[] = [];
+  const fromFile = applyEnvSettings(file ? readConfigFile(file) : {}, env, issues);
+
+  let providers: ProviderName[] = [...new Set(fromFile.providers || ['kapa' as const])];
+  if (env.DOCS_PROVIDERS !== undefined) {
+    try {
+      providers = parseProviderNames(env.DOCS_PROVIDERS);
+    } catch (error: any) {
+      issues.push(error.message);
+    }
+  }
+
+  // Projets Kapa : ceux du fichier, et KAPA_API_KEY / KAPA_PROJECT_ID pour le projet par défaut
+  const fileProjects = fromFile.kapa?.projects || {};
+  const defaultProject = env.KAPA_DEFAULT_PROJECT
+    || fromFile.kapa?.default_project
+    || Object.keys(fileProjects)[0]
+    || DEFAULT_PROJECT_NAME;
+  const projects: Record<string, KapaProjectConfig> = {};
+
+  const projectNames = [...new Set([...Object.keys(fileProjects), defaultProject])];
+  projectNames.forEach(name => {
+    const project = fileProjects[name];
+    const isDefault = name === defaultProject;
+    const apiKey = (isDefault && env.KAPA_API_KEY)
+      || project?.api_key
+      || (project?.api_key_env && env[project.api_key_env]);
+    const projectId = (isDefault && env.KAPA_PROJECT_ID) || project?.project_id;
+
+    // Projet par défaut sans fichier ni variables : seulement une erreur si Kapa est utilisé
+    if (!project && !apiKey && !projectId) {
+      return;
+    }
+
+    if (!apiKey) {
+      issues.push(!project
+        ? 'KAPA_API_KEY is required'
+        : project.api_key_env
+          ? `kapa.projects.${name}.api_key_env: environment variable ${project.api_key_env} is not set`
+          : `kapa.projects.${name}: missing API key (set api_key or api_key_env${isDefault ? ', or KAPA_API_KEY' : ''})`);
+    }
+    if (!projectId) {
+      issues.push('KAPA_PROJECT_ID is required');
+    }
+
+    projects[name] = {
+      name,
+      api_key: apiKey || '',
+      project_id: projectId || '',
+      api_url: (isDefault && env.KAPA_API_URL) || project?.api_url || DEFAULT_KAPA_API_URL,
+      ...(project?.description && { description: project.description }),
+      source_ids: { ...project?.source_ids, ...(isDefault ? readEnvSourceIds(env) : {}) },
+    };
+  });
+
+  if (providers.includes('kapa') && !projects[defaultProject]) {
+    issues.push(Object.keys(fileProjects).length === 0
+      ? 'KAPA_API_KEY and KAPA_PROJECT_ID are required (or kapa.projects in a config file)'
+      : `kapa.default_project: unknown project "${defaultProject}". Expected one of: ${Object.keys(fileProjects).join(', ')}`);
+  }
+
+  const number = (variable: string, fallback: number | undefined, defaultValue: number, min?: number) => {
+    const value = env[variable];
+    return (value !== undefined ? parseNumber(value, variable, issues, min) : fallback) ?? defaultValue;
+  };
+  const rateLimit = {
+    requests_per_minute: number('MAX_REQUESTS_PER_MINUTE', fromFile.kapa?.requests_per_minute, 60),
+    max_concurrency: number('KAPA_MAX_CONCURRENCY', fromFile.kapa?.max_concurrency, 4),
+    max_retries: number('KAPA_MAX_RETRIES', fromFile.kapa?.max_retries, 3, 0),
+  };
+  const contextSections = number('LOCAL_LLM_CONTEXT_SECTIONS', fromFile.local_llm?.context_sections, 5);
+
+  const localUrl = env.LOCAL_LLM_URL || fromFile.local_llm?.url;
+  const localModel = env.LOCAL_LLM_MODEL || fromFile.local_llm?.model;
+  if (providers.includes('local') && (!localUrl || !localModel)) {
+    issues.push('LOCAL_LLM_URL and LOCAL_LLM_MODEL (or local_llm.url and local_llm.model) are required for the local provider');
+  }
+
+  const transport = overrides.transport || env.MCP_TRANSPORT || fromFile.server?.transport || 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    issues.push(`transport: expected stdio or http, got "${transport}"`);
+  }
+
+  const portValue = overrides.port || env.MCP_HTTP_PORT;
+  const port = portValue !== undefined
+    ? parseNumber(portValue, overrides.port ? '--port' : 'MCP_HTTP_PORT', issues, 1, 65535)
+    : fromFile.server?.port;
+
+  const access = readAccessConfig(fromFile, env, providers.includes('kapa') ? Object.keys(projects) : [defaultProject], issues, cwd);
+
+  if (issues.length > 0) {
+    throw new ConfigError(`Invalid configuration${file ? ` (${file})` : ''}`, issues);
+  }
+
+  return {
+    ...(file && { file }),
+    providers,
+    kapa: {
+      default_project: defaultProject,
+      streaming: fromFile.kapa?.streaming ?? true,
+      ...rateLimit,
+      projects,
+    },
+    ...(localUrl && localModel && {
+      local_llm: {
+        url: localUrl,
+        model: localModel,
+        api_key: env.LOCAL_LLM_API_KEY || fromFile.local_llm?.api_key,
+        context_sections: contextSections,
+      },
+    }),
+    server: {
+      name: env.MCP_SERVER_NAME || fromFile.server?.name || 'strapi-docs',
+      transport: transport as 'stdio' | 'http',
+      host: overrides.host || env.MCP_HTTP_HOST || fromFile.server?.host || '127.0.0.1',
+      port: port ?? 3000,
+      startup_check: fromFile.server?.startup_check ?? false,
+      session_idle_timeout_seconds: fromFile.server?.session_idle_timeout || 1800,
+      max_sessions: fromFile.server?.max_sessions || 100,
+    },
+    cache: {
+      mode: fromFile.cache?.mode || 'memory',
+      ttl_seconds: fromFile.cache?.ttl || 3600,
+      max_entries: fromFile.cache?.max_entries || 500,
+      file: path.resolve(cwd, fromFile.cache?.file || '.cache/kapa-responses.json'),
+    },
+    sources: {
+      link_check: fromFile.sources?.link_check ?? false,
+      link_cache: fromFile.sources?.link_cache || 'file',
+      link_cache_file: path.resolve(cwd, fromFile.sources?.link_cache_file || '.cache/source-links.json'),
+      link_cache_ttl_seconds: fromFile.sources?.link_cache_ttl || 86400,
+      link_timeout_ms: fromFile.sources?.link_timeout || 3000,
+    },
+    plugins: {
+      catalog: fromFile.plugins?.catalog || 'npm',
+      catalog_file: path.resolve(cwd, fromFile.plugins?.catalog_file || '.cache/strapi-plugins.json'),
+      registry_url: fromFile.plugins?.registry_url || DEFAULT_NPM_REGISTRY_URL,
+    },
+    redaction: {
+      mode: fromFile.redaction?.mode || 'redact',
+      ...(fromFile.redaction?.rules_file && { rules_file: path.resolve(cwd, fromFile.redaction.rules_file) }),
+    },
+    local_index: {
+      file: path.resolve(cwd, fromFile.local_index?.file || DEFAULT_INDEX_PATH),
+      fallback: fromFile.local_index?.fallback ?? true,
+    },
+    version_mismatch: fromFile.version_mismatch || 'flag',
+    ...(fromFile.prompts_file && { prompts_file: path.resolve(cwd, fromFile.prompts_file) }),
+    ...(fromFile.audit_log && { audit_log: path.resolve(cwd, fromFile.audit_log) }),
+    access,
+  };
+}
+
+// Utilisateurs, jetons, droits et quotas (access), avec STRAPI_MCP_USER et STRAPI_MCP_ALLOW_ANONYMOUS
+function readAccessConfig(
+  fromFile: ConfigFile,
+  env: NodeJS.ProcessEnv,
+  projectNames: string[],
+  issues: string[],
+  cwd: string
+): ServerConfig['access'] {
+  const checkPolicy = (policy: AccessPolicy, where: string) => {
+    (policy.tools || []).filter(tool => tool !== '*' && !isToolName(tool)).forEach(tool => {
+      issues.push(`${where}.tools: unknown tool "${tool}"`);
+    });
+    (policy.projects || []).filter(project => project !== '*' && !projectNames.includes(project)).forEach(project => {
+      issues.push(`${where}.projects: unknown project "${project}". Expected one of: ${projectNames.join(', ')}`);
+    });
+  };
+
+  const defaultPolicy: AccessPolicy = fromFile.access?.default || {};
+  checkPolicy(defaultPolicy, 'access.default');
+
+  const users: Record<string, AccessUserConfig> = {};
+  const tokenOwners = new Map<string, string>();
+  Object.entries(fromFile.access?.users || {}).forEach(([name, user]) => {
+    const { token, token_env: tokenEnv, metadata, ...policy } = user;
+    checkPolicy(policy, `access.users.${name}`);
+
+    const tokens = [token, tokenEnv && env[tokenEnv]].filter((value): value is string => !!value);
+    if (tokenEnv && !env[tokenEnv]) {
+      issues.push(`access.users.${name}.token_env: environment variable ${tokenEnv} is not set`);
+    }
+    tokens.forEach(value => {
+      if (tokenOwners.has(value)) {
+        issues.push(`access.users.${name}: same token as user "${tokenOwners.get(value)}"`);
+      }
+      tokenOwners.set(value, name);
+    });
+
+    users[name] = { name, ...policy, tokens, metadata: metadata || {} };
+  });
+
+  const user = env.STRAPI_MCP_USER || fromFile.access?.user;
+  if (user && !users[user]) {
+    issues.push(`${env.STRAPI_MCP_USER ? 'STRAPI_MCP_USER' : 'access.user'}: unknown user "${user}"${Object.keys(users).length > 0 ? `. Expected one of: ${Object.keys(users).join(', ')}` : ' (define it in access.users)'}`);
+  }
+
+  return {
+    ...(user && { user }),
+    allow_anonymous: fromFile.access?.allow_anonymous ?? true,
+    ...(fromFile.access?.files_root && { files_root: path.resolve(cwd, fromFile.access.files_root) }),
+    default: defaultPolicy,
+    users,
+  };
+}
+
+// Clé d'API masquée pour l'affichage
+export function maskApiKey(apiKey: string): string {
+  return apiKey ? `***${apiKey.slice(-4)}` : 'Not set';
+}
@@ -0,0 +1,73 @@
+export interface DocSection {
+  name: string;
+  title: string;
+  description: string;
+  // Pages de la section, pour filtrer l'index local
+  urlPrefixes: string[];
+}
+
+export const DOC_SECTIONS: DocSection[] = [
+  {
+    name: 'cms',
+    title: 'Strapi CMS',
+    description: 'Self-hosted Strapi: installation, configuration, content-type builder, admin panel, deployment',
+    urlPrefixes: ['https://docs.strapi.io/cms'],
+  },
+  {
+    name: 'cloud',
+    title: 'Strapi Cloud',
+    description: 'Strapi Cloud hosting: projects, deployments, settings, billing',
+    urlPrefixes: ['https://docs.strapi.io/cloud'],
+  },
+  {
+    name: 'rest-api',
+    title: 'REST API',
+    description: 'REST API reference: endpoints, filters, populate, sort, pagination',
+    urlPrefixes: ['https://docs.strapi.io/cms/api/rest'],
+  },
+  {
+    name: 'graphql',
+    title: 'GraphQL API',
+    description: 'GraphQL API reference and GraphQL plugin',
+    urlPrefixes: ['https://docs.strapi.io/cms/api/graphql', 'https://docs.strapi.io/cms/plugins/graphql'],
+  },
+  {
+    name: 'document-service',
+    title: 'Document Service API',
+    description: 'Back-end Document Service API (strapi.documents) used in controllers, services and plugins',
+    urlPrefixes: ['https://docs.strapi.io/cms/api/document-service'],
+  },
+  {
+    name: 'plugins',
+    title: 'Plugins',
+    description: 'Using, configuring and developing Strapi plugins',
+    urlPrefixes: ['https://docs.strapi.io/cms/plugins', 'https://docs.strapi.io/cms/plugins-development'],
+  },
+  {
+    name: 'migration',
+    title: 'Migration',
+    description: 'Upgrading Strapi and migrating from v4 to v5',
+    urlPrefixes: ['https://docs.strapi.io/cms/migration', 'https://docs.strapi.io/cms/upgrade'],
+  },
+];
+
+export const DOC_SECTION_NAMES = DOC_SECTIONS.map(section => section.name);
+
+export function getDocSection(name: string): DocSection | undefined {
+  return DOC_SECTIONS.find(section => section.name === name);
+}
+
+export function validateSections(sections?: string[]): DocSection[] {
+  return (sections || []).map(name => {
+    const section = getDocSection(name);
+    if (!section) {
+      throw new Error(`Unknown docs section "${name}". Expected one of: ${DOC_SECTION_NAMES.join(', ')}`);
+    }
+    return section;
+  });
+}
+
+export function getSectionUrlPrefixes(sections: string[] = []): string[] | undefined {
+  const prefixes = sections.flatMap(name => getDocSection(name)?.urlPrefixes || []);
+  return prefixes.length > 0 ? prefixes : undefined;
+}
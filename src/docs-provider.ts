@@ -0,0 +1,223 @@
+import { logger } from './logger';
+import { AbortError } from './rate-limiter';
+import { RedactionSummary } from './redact';
+
+export interface DocsSource {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+export interface DocsAnswer {
+  answer: string;
+  sources: DocsSource[];
+  confidence: number;
+  thread_id?: string;
+  question_answer_id?: string;
+  is_uncertain?: boolean;
+  cached?: boolean;
+  cached_at?: string;
+  fallback_reason?: string;
+  // Projet Kapa qui a reçu la question (voir config.ts)
+  project?: string;
+  // Fournisseur qui a produit la réponse, et pourquoi les précédents ont été sautés
+  provider?: string;
+  provider_fallback_reason?: string;
+  // Données sensibles masquées avant l'envoi
+  redactions?: RedactionSummary;
+}
+
+export type FeedbackReaction = 'upvote' | 'downvote';
+
+export interface SearchParams {
+  thread_id?: string;
+  source_ids_include?: string[];
+  // Sections de la documentation (voir doc-sections.ts)
+  sections?: string[];
+}
+
+// Utilisateur à l'origine de l'appel (voir access-control.ts), transmis au fournisseur
+export interface DocsUser {
+  id: string;
+  metadata: Record<string, string>;
+}
+
+// Clé d'un identifiant de thread ou de réponse : chaque appelant ne retrouve que les siens
+export function scopedId(id: string, user?: DocsUser): string {
+  return user ? `${user.id}\u0000${id}` : id;
+}
+
+export interface DocsQueryOptions {
+  signal?: AbortSignal;
+  user?: DocsUser;
+  onChunk?: (text: string, answer: string) => void;
+}
+
+export interface ProviderHealth {
+  success: boolean;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+// Source de réponses sur la documentation Strapi (Kapa, LLM local, mock...)
+export interface DocsProvider {
+  readonly name: string;
+  query(query: string, context?: string, params?: SearchParams, options?: DocsQueryOptions): Promise<DocsAnswer>;
+  continueThread(
+    threadId: string,
+    query: string,
+    params?: Omit<SearchParams, 'thread_id'>,
+    options?: DocsQueryOptions
+  ): Promise<DocsAnswer>;
+  feedback(questionAnswerId: string, reaction: FeedbackReaction, comment?: string, user?: DocsUser): Promise<void>;
+  healthCheck(): Promise<ProviderHealth>;
+}
+
+export const PROVIDER_NAMES = ['kapa', 'local', 'mock'] as const;
+
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+// DOCS_PROVIDERS=kapa,local : fournisseurs dans l'ordre de repli
+export function parseProviderNames(value: string = 'kapa'): ProviderName[] {
+  const names = value.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  if (names.length === 0) {
+    throw new Error('DOCS_PROVIDERS must list at least one provider');
+  }
+
+  for (const name of names) {
+    if (!(PROVIDER_NAMES as readonly string[]).includes(name)) {
+      throw new Error(`Unknown docs provider "${name}" in DOCS_PROVIDERS. Expected: ${PROVIDER_NAMES.join(', ')}`);
+    }
+  }
+  return [...new Set(names)] as ProviderName[];
+}
+
+const MAX_TRACKED_IDS = 1000;
+
+// Essaie les fournisseurs dans l'ordre ; threads et votes reviennent au fournisseur qui a répondu
+export class ProviderChain implements DocsProvider {
+  readonly name = 'chain';
+  private owners = new Map<string, DocsProvider>();
+
+  constructor(public readonly providers: DocsProvider[]) {
+    if (providers.length === 0) {
+      throw new Error('At least one docs provider is required');
+    }
+  }
+
+  async query(
+    query: string,
+    context?: string,
+    params: SearchParams = {},
+    options: DocsQueryOptions = {}
+  ): Promise<DocsAnswer> {
+    const owner = params.thread_id ? this.getOwner(params.thread_id, options.user) : this.providers[0];
+
+    // Un thread n'existe que chez son fournisseur : les suivants repartent d'une nouvelle conversation
+    const { thread_id: _threadId, ...newConversation } = params;
+    return this.run(owner, (provider) => provider === owner
+      ? provider.query(query, context, params, options)
+      : provider.query(query, context, newConversation, options),
+    options);
+  }
+
+  async continueThread(
+    threadId: string,
+    query: string,
+    params: Omit<SearchParams, 'thread_id'> = {},
+    options: DocsQueryOptions = {}
+  ): Promise<DocsAnswer> {
+    const owner = this.getOwner(threadId, options.user);
+
+    return this.run(owner, (provider) => provider === owner
+      ? provider.continueThread(threadId, query, params, options)
+      : provider.query(query, undefined, params, options),
+    options);
+  }
+
+  async feedback(questionAnswerId: string, reaction: FeedbackReaction, comment?: string, user?: DocsUser): Promise<void> {
+    await this.getOwner(questionAnswerId, user).feedback(questionAnswerId, reaction, comment, user);
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    const results = await Promise.all(this.providers.map(provider => this.checkProvider(provider)));
+    const failed = results.filter(result => !result.success);
+
+    return {
+      success: failed.length === 0,
+      message: failed.length === 0
+        ? 'All providers are available'
+        : `Unavailable: ${failed.map(result => `${result.provider} (${result.message})`).join(', ')}`,
+      details: { providers: results },
+    };
+  }
+
+  async checkProvider(provider: DocsProvider): Promise<ProviderHealth & { provider: string }> {
+    try {
+      return { provider: provider.name, ...await provider.healthCheck() };
+    } catch (error) {
+      return {
+        provider: provider.name,
+        success: false,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private getOwner(id: string, user?: DocsUser): DocsProvider {
+    return this.owners.get(scopedId(id, user)) || this.providers[0];
+  }
+
+  private async run(
+    first: DocsProvider,
+    call: (provider: DocsProvider) => Promise<DocsAnswer>,
+    options: DocsQueryOptions
+  ): Promise<DocsAnswer> {
+    const order = [first, ...this.providers.filter(provider => provider !== first)];
+    const failures: string[] = [];
+    let lastError: unknown;
+
+    for (const provider of order) {
+      try {
+        const answer = await call(provider);
+        this.track(answer, provider, options.user);
+        return {
+          ...answer,
+          provider: provider.name,
+          ...(failures.length > 0 && { provider_fallback_reason: failures.join('; ') }),
+        };
+      } catch (error) {
+        if (options.signal?.aborted || error instanceof AbortError) {
+          throw error;
+        }
+
+        lastError = error;
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push(`${provider.name}: ${message}`);
+        if (order.length > 1) {
+          logger.warn(`Docs provider ${provider.name} failed`, { provider: provider.name, error: message });
+        }
+      }
+    }
+
+    if (order.length === 1) {
+      throw lastError;
+    }
+    throw new Error(`All docs providers failed (${failures.join('; ')})`);
+  }
+
+  private track(answer: DocsAnswer, provider: DocsProvider, user?: DocsUser): void {
+    [answer.thread_id, answer.question_answer_id].forEach(id => {
+      if (!id) return;
+      const key = scopedId(id, user);
+      this.owners.delete(key);
+      this.owners.set(key, provider);
+    });
+
+    while (this.owners.size > MAX_TRACKED_IDS) {
+      const oldest = this.owners.keys().next().value;
+      if (oldest === undefined) break;
+      this.owners.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import axios, { AxiosInstance } from 'axios';
+import { MemoryLRUStore, ResponseCache } from './cache';
+import { MarkdownPage, htmlToMarkdown } from './html-to-markdown';
+import { getDocsBaseUrl, getDocsMajorVersion } from './strapi-version';
+
+export const DOCS_URI_SCHEME = 'strapi-docs';
+
+export const DOCS_RESOURCE_TEMPLATE = {
+  uriTemplate: `${DOCS_URI_SCHEME}://{version}/{path}`,
+  name: 'strapi-docs-page',
+  title: 'Strapi documentation page',
+  description: 'A page of the Strapi documentation converted to markdown. "version" is the Strapi major version (e.g. "5", "4" or "latest") and "path" the page path on the docs site (e.g. "cms/api/rest").',
+  mimeType: 'text/markdown',
+};
+
+export interface RecentSource {
+  uri: string;
+  url: string;
+  title: string;
+  snippet: string;
+  seenAt: number;
+}
+
+// https://docs.strapi.io/cms/api/rest#filters -> strapi-docs://5/cms/api/rest
+export function urlToDocsUri(url: string): string {
+  const major = getDocsMajorVersion(url);
+  if (major === undefined) {
+    return url.split('#')[0];
+  }
+
+  const { pathname } = new URL(url);
+  return `${DOCS_URI_SCHEME}://${major}/${pathname.replace(/^\/+|\/+$/g, '')}`;
+}
+
+export function docsUriToUrl(uri: string): string {
+  const match = uri.match(new RegExp(`^${DOCS_URI_SCHEME}://([^/]+)/?(.*)$`));
+  if (!match) {
+    throw new Error(`Invalid Strapi docs URI: ${uri}. Expected ${DOCS_RESOURCE_TEMPLATE.uriTemplate}`);
+  }
+
+  const [, version, pagePath] = match;
+  const major = version === 'latest' ? 5 : parseInt(version.replace(/^v/, ''), 10);
+  const baseUrl = isNaN(major) ? undefined : getDocsBaseUrl(major);
+  if (!baseUrl) {
+    throw new Error(`Unknown Strapi docs version "${version}" in ${uri}`);
+  }
+
+  return `${baseUrl}/${pagePath.replace(/^\/+/, '')}`;
+}
+
+// Sources des réponses récentes, exposées comme ressources MCP
+export class RecentSourcesRegistry {
+  private sources = new Map<string, RecentSource>();
+
+  constructor(private maxSources: number = 100) {}
+
+  // Retourne true si la liste a changé
+  add(sources: Array<{ title: string; url: string; snippet: string }>): boolean {
+    let changed = false;
+
+    for (const source of sources) {
+      if (!/^https?:\/\//.test(source.url)) continue;
+
+      const uri = urlToDocsUri(source.url);
+      changed = changed || !this.sources.has(uri);
+      this.sources.delete(uri);
+      this.sources.set(uri, {
+        uri,
+        url: source.url.split('#')[0],
+        title: source.title,
+        snippet: source.snippet,
+        seenAt: Date.now(),
+      });
+    }
+
+    while (this.sources.size > this.maxSources) {
+      const oldest = this.sources.keys().next().value;
+      if (oldest === undefined) break;
+      this.sources.delete(oldest);
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  get(uri: string): RecentSource | undefined {
+    return this.sources.get(uri);
+  }
+
+  list(): RecentSource[] {
+    return [...this.sources.values()].reverse();
+  }
+}
+
+// Récupère une page et la convertit en markdown, avec un petit cache mémoire
+export class DocsPageFetcher {
+  private client: AxiosInstance;
+  private cache = new ResponseCache<MarkdownPage>(new MemoryLRUStore<MarkdownPage>(50), 3600);
+
+  constructor(timeout: number = 15000) {
+    this.client = axios.create({
+      timeout,
+      headers: {
+        'Accept': 'text/html',
+        'User-Agent': 'Strapi-MCP-Server/1.0',
+      },
+      responseType: 'text',
+    });
+  }
+
+  async fetch(url: string): Promise<MarkdownPage> {
+    const cached = await this.cache.get({ query: url });
+    if (cached) {
+      return cached.value;
+    }
+
+    try {
+      const response = await this.client.get(url);
+      const page = htmlToMarkdown(String(response.data), url);
+      await this.cache.set({ query: url }, page);
+      return page;
+    } catch (error: any) {
+      const status = error.response?.status;
+      throw new Error(status
+        ? `Failed to fetch ${url}: HTTP ${status}`
+        : `Failed to fetch ${url}: ${error.message}`);
+    }
+  }
+}
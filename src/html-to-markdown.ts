@@ -0,0 +1,97 @@
+export interface MarkdownPage {
+  title?: string;
+  markdown: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith('#')) {
+      return String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, '');
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2]) : undefined;
+}
+
+function resolveUrl(href: string, baseUrl?: string): string {
+  try {
+    return baseUrl ? new URL(href, baseUrl).toString() : href;
+  } catch {
+    return href;
+  }
+}
+
+// Conversion HTML -> markdown volontairement simple, pensée pour les pages Docusaurus de docs.strapi.io
+export function htmlToMarkdown(html: string, baseUrl?: string): MarkdownPage {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const title = titleMatch ? decodeEntities(stripTags(titleMatch[1])).trim() : undefined;
+
+  // Contenu principal de la page, sans la navigation
+  let content = (html.match(/<article[^>]*>([\s\S]*?)<\/article>/i)
+    || html.match(/<main[^>]*>([\s\S]*?)<\/main>/i)
+    || html.match(/<body[^>]*>([\s\S]*?)<\/body>/i)
+    || [html, html])[1];
+
+  content = content
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|nav|footer|svg|button|noscript)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a[^>]*class="[^"]*hash-link[^"]*"[^>]*>[\s\S]*?<\/a>/gi, '');
+
+  // Les blocs de code sont mis de côté pour ne pas être transformés
+  const codeBlocks: string[] = [];
+  content = content.replace(/<pre([^>]*)>([\s\S]*?)<\/pre>/gi, (_match, preAttributes: string, inner: string) => {
+    const languageMatch = `${preAttributes} ${inner.match(/<code([^>]*)>/i)?.[1] || ''}`.match(/language-([\w-]+)/);
+    const code = decodeEntities(stripTags(inner.replace(/<br\s*\/?>/gi, '\n'))).replace(/\n+$/, '');
+    codeBlocks.push(`\`\`\`${languageMatch?.[1] || ''}\n${code}\n\`\`\``);
+    return `\n\n@@CODE_BLOCK_${codeBlocks.length - 1}@@\n\n`;
+  });
+
+  content = content
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, text: string) =>
+      `\n\n${'#'.repeat(parseInt(level, 10))} ${stripTags(text).trim()}\n\n`)
+    .replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, (_match, text: string) => `\`${stripTags(text)}\``)
+    .replace(/<(strong|b)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, '**$3**')
+    .replace(/<(em|i)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, '*$3*')
+    .replace(/<a(\s[^>]*)>([\s\S]*?)<\/a>/gi, (_match, attributes: string, text: string) => {
+      const href = getAttribute(attributes, 'href');
+      const label = stripTags(text).trim();
+      return href && label ? `[${label}](${resolveUrl(href, baseUrl)})` : label;
+    })
+    .replace(/<img(\s[^>]*)>/gi, (_match, attributes: string) => {
+      const src = getAttribute(attributes, 'src');
+      return src ? `![${getAttribute(attributes, 'alt') || ''}](${resolveUrl(src, baseUrl)})` : '';
+    })
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(td|th)>/gi, ' | ')
+    .replace(/<tr[^>]*>/gi, '\n| ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|ul|ol|table|thead|tbody|blockquote)[^>]*>/gi, '\n\n');
+
+  const markdown = decodeEntities(stripTags(content))
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/@@CODE_BLOCK_(\d+)@@/g, (_match, index: string) => codeBlocks[parseInt(index, 10)])
+    .trim();
+
+  return { title, markdown };
+}
@@ -0,0 +1,237 @@
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Un serveur MCP par session : une instance Server ne gère qu'un transport
+  createServer: () => Server;
+  getHealth?: () => Record<string, unknown>;
+  // Métriques au format texte Prometheus, servies sur /metrics
+  getMetrics?: () => string;
+  // Session fermée sans requête pendant ce délai (client parti sans DELETE ni déconnexion propre)
+  sessionIdleTimeoutMs?: number;
+  // Au-delà, la session la moins récemment utilisée est fermée
+  maxSessions?: number;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  lastSeen: number;
+}
+
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 100;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Erreur de la requête HTTP elle-même, avant le transport MCP : statut HTTP et code JSON-RPC
+class HttpRequestError extends Error {
+  constructor(public status: number, message: string, public code: number) {
+    super(message);
+    this.name = 'HttpRequestError';
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string, code: number = -32000): void {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
+
+// 413 au-delà de MAX_BODY_SIZE, 400 (erreur JSON-RPC Parse error) si le corps n'est pas du JSON
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => new HttpRequestError(413, `Request body too large (max ${MAX_BODY_SIZE} bytes)`, -32600);
+    if (Number(req.headers['content-length']) > MAX_BODY_SIZE) {
+      reject(tooLarge());
+      req.resume();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        // Le reste du corps est ignoré pour pouvoir répondre
+        chunks.length = 0;
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > MAX_BODY_SIZE) return;
+      const body = Buffer.concat(chunks).toString('utf-8');
+      try {
+        resolve(body ? JSON.parse(body) : undefined);
+      } catch {
+        reject(new HttpRequestError(400, 'Parse error: invalid JSON body', -32700));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+export function startHttpServer(options: HttpServerOptions): Promise<http.Server> {
+  const sessions = new Map<string, HttpSession>();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+
+  const closeSession = (sessionId: string, reason: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    logger.info(`[HTTP] Closing session ${sessionId} (${reason})`);
+    session.transport.close().catch(() => undefined);
+  };
+
+  // Nouvelle session : la moins récemment utilisée est fermée si la limite est atteinte
+  const addSession = (sessionId: string, transport: HttpSession['transport']) => {
+    while (sessions.size >= maxSessions) {
+      const [oldest] = [...sessions.entries()].sort(([, a], [, b]) => a.lastSeen - b.lastSeen)[0];
+      closeSession(oldest, `more than ${maxSessions} open sessions`);
+    }
+    sessions.set(sessionId, { transport, lastSeen: Date.now() });
+  };
+
+  const touchSession = (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (session) {
+      session.lastSeen = Date.now();
+    }
+    return session;
+  };
+
+  const sweep = setInterval(() => {
+    const expiredBefore = Date.now() - idleTimeoutMs;
+    [...sessions.entries()]
+      .filter(([, session]) => session.lastSeen < expiredBefore)
+      .forEach(([sessionId]) => closeSession(sessionId, 'idle'));
+  }, Math.min(idleTimeoutMs, MAX_SWEEP_INTERVAL_MS));
+  sweep.unref();
+
+  // Streamable HTTP : POST pour les requêtes, GET pour le flux SSE du serveur, DELETE pour fermer la session
+  const handleMcpRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const existing = sessionId ? touchSession(sessionId)?.transport : undefined;
+    let transport = existing instanceof StreamableHTTPServerTransport ? existing : undefined;
+
+    if (!transport) {
+      if (sessionId) {
+        sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+        return;
+      }
+      if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, 'Bad Request: no valid session ID provided');
+        return;
+      }
+
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          addSession(id, newTransport);
+        },
+      });
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          sessions.delete(newTransport.sessionId);
+        }
+      };
+
+      await options.createServer().connect(newTransport);
+      transport = newTransport;
+    }
+
+    await transport.handleRequest(req, res, body);
+  };
+
+  // Transport SSE historique pour les anciens clients MCP
+  const handleSseConnection = async (res: http.ServerResponse) => {
+    const transport = new SSEServerTransport('/messages', res);
+    addSession(transport.sessionId, transport);
+    transport.onclose = () => {
+      sessions.delete(transport.sessionId);
+    };
+
+    await options.createServer().connect(transport);
+  };
+
+  const handleSseMessage = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+    const sessionId = url.searchParams.get('sessionId') || '';
+    const transport = touchSession(sessionId)?.transport;
+    if (!(transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+      return;
+    }
+
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, {
+          status: 'ok',
+          sessions: sessions.size,
+          ...options.getHealth?.(),
+        });
+      } else if (url.pathname === '/metrics' && req.method === 'GET' && options.getMetrics) {
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(options.getMetrics());
+      } else if (url.pathname === '/mcp' && ['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+        await handleMcpRequest(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnection(res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    } catch (error: any) {
+      if (error instanceof HttpRequestError) {
+        logger.warn(`[HTTP] ${req.method} ${url.pathname} refused`, { status: error.status, error: error.message });
+        if (!res.headersSent) {
+          sendJsonRpcError(res, error.status, error.message, error.code);
+        }
+        return;
+      }
+      logger.error(`[HTTP Error] ${req.method} ${url.pathname}`, { error: error.message || String(error) });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, error.message || 'Internal server error');
+      }
+    }
+  });
+
+  httpServer.on('close', () => {
+    clearInterval(sweep);
+    [...sessions.values()].forEach(({ transport }) => {
+      transport.close().catch(() => undefined);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve(httpServer);
+    });
+  });
+}
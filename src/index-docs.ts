@@ -0,0 +1,40 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { DEFAULT_INDEX_PATH, buildDocsIndex } from './local-index';
+
+// Construction de l'index local : npm run index-docs -- <chemin vers strapi/documentation> [--output fichier]
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+    },
+  });
+
+  const sourceDir = positionals[0];
+  if (!sourceDir) {
+    console.error('Usage: npm run index-docs -- <path to a strapi/documentation checkout> [--output <index file>]');
+    console.error('Get the docs with: git clone --depth 1 https://github.com/strapi/documentation.git');
+    process.exit(1);
+  }
+
+  const output = values.output || process.env.STRAPI_DOCS_INDEX || DEFAULT_INDEX_PATH;
+
+  console.error(`📚 Indexing Strapi documentation from ${path.resolve(sourceDir)}...`);
+  const index = await buildDocsIndex(sourceDir);
+
+  if (index.sections.length === 0) {
+    console.error('❌ No markdown pages found. Check the path to the strapi/documentation checkout.');
+    process.exit(1);
+  }
+
+  await fs.mkdir(path.dirname(path.resolve(output)), { recursive: true });
+  await fs.writeFile(output, JSON.stringify(index), 'utf-8');
+  console.error(`✅ Indexed ${index.sections.length} sections into ${output}`);
+}
+
+main().catch((error) => {
+  console.error(`❌ Indexing failed: ${error.message || error}`);
+  process.exit(1);
+});
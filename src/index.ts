@@ -3,331 +3,821 @@ const { StdioServerTransport } = require('@modelcontextprotocol/sdk/server/stdio
 const {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  McpError,
+  ErrorCode,
 } = require('@modelcontextprotocol/sdk/types.js');
-const axios = require('axios');
-
-interface KapaResponse {
-  answer: string;
-  sources: Array<{
-    title: string;
-    url: string;
-    snippet: string;
-  }>;
-  confidence: number;
-  thread_id?: string;
-  question_answer_id?: string;
-  is_uncertain?: boolean;
+import { parseArgs } from 'util';
+import { AccessController, AccessError, ClientIdentity, LocalPaths, getQuotaCost } from './access-control';
+import { AuditLog, createAuditLog } from './audit-log';
+import { ResponseCache, createResponseCache } from './cache';
+import {
+  CodeExample,
+  detectProjectLanguage,
+  extractCodeBlocks,
+  getCodeExampleKind,
+  getCodeExamplePath,
+  stripCodeBlocks,
+  toCodeExamples,
+} from './code-examples';
+import { ConfigOverrides, KapaProjectConfig, ServerConfig, loadConfig, maskApiKey } from './config';
+import {
+  DOCS_RESOURCE_TEMPLATE,
+  DOCS_URI_SCHEME,
+  DocsPageFetcher,
+  RecentSourcesRegistry,
+  docsUriToUrl,
+} from './docs-resources';
+import { DOC_SECTIONS, getSectionUrlPrefixes, validateSections } from './doc-sections';
+import {
+  DocsAnswer,
+  DocsProvider,
+  DocsQueryOptions,
+  DocsUser,
+  ProviderChain,
+  ProviderHealth,
+  ProviderName,
+  SearchParams,
+  scopedId,
+} from './docs-provider';
+import { startHttpServer } from './http-transport';
+import { KapaClient } from './kapa-client';
+import { LocalLlmProvider } from './local-llm-provider';
+import { LocalDocsIndex, LocalSearchResult } from './local-index';
+import { errorMessage, logger } from './logger';
+import { MetricsRegistry, UsageReport, parseWindow } from './metrics';
+import { MIGRATION_CATEGORIES, MigrationFinding, groupFindingsByFile, scanProjectForMigration } from './migration-scan';
+import { MockDocsProvider } from './mock-provider';
+import {
+  PluginCatalog,
+  PluginCompatibility,
+  PluginInfo,
+  checkPluginCompatibility,
+  createPluginCatalog,
+} from './plugin-catalog';
+import { ProjectFacts, collectProjectFacts, formatProjectFacts } from './project-facts';
+import { PromptRegistry, createPromptRegistry } from './prompts';
+import { ConcurrencyLimiter } from './rate-limiter';
+import { RedactingProvider, RedactionError, Redactor, createRedactor, formatRedactionSummary } from './redact';
+import { SourceProcessor, canonicalizeUrl, createSourceProcessor, toSnippetExcerpt } from './source-links';
+import {
+  ResolvedStrapiVersion,
+  getDocsMajorVersion,
+  resolveStrapiVersion,
+} from './strapi-version';
+import {
+  ToolArguments,
+  ToolCall,
+  ToolName,
+  acceptsProject,
+  isToolName,
+  parseToolCall,
+  toInputJsonSchema,
+  unknownTool,
+} from './tool-schemas';
+
+type OutputFormat = 'markdown' | 'plain' | 'json';
+
+interface AnswerSource {
+  title: string;
+  url: string;
+  snippet: string;
+  docs_version?: number;
+  version_mismatch?: boolean;
+  // Vérification du lien (SOURCE_LINK_CHECK, voir source-links.ts)
+  link_status?: 'ok' | 'moved' | 'unknown';
+  moved_from?: string;
 }
 
-interface KapaQueryRequest {
-  query: string;
-  context?: string;
-  integration_id?: string;
-  source_ids_include?: string[];
+// Fournisseurs d'un projet Kapa (un seul projet si Kapa n'est pas utilisé)
+interface DocsProject {
+  name: string;
+  kapa?: KapaProjectConfig;
+  chain: ProviderChain;
+  // Chaîne de fournisseurs derrière le masquage des données sensibles
+  provider: DocsProvider;
 }
 
-class KapaClient {
-  private client: any;
-  private projectId: string;
+interface AnswerRenderOptions {
+  heading?: { icon: string; text: string };
+  version?: ResolvedStrapiVersion;
+  uncertaintyNote: string;
+  sources: AnswerSource[];
+  sourcesHeading: { icon: string; text: string };
+  // Faits du projet envoyés avec la question, montrés tels quels
+  projectFacts?: { data: ProjectFacts; text: string };
+}
 
-  constructor(apiKey: string, projectId: string, baseURL: string = 'https://api.kapa.ai') {
-    this.projectId = projectId;
-    
-    // Configuration selon la documentation officielle Kapa
-    this.client = axios.create({
-      baseURL: baseURL,
-      headers: {
-        'X-API-KEY': apiKey,  // Format exact de la documentation
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'User-Agent': 'Strapi-MCP-Server/1.0'
+// Schéma commun aux réponses de documentation (structuredContent)
+const DOCS_ANSWER_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    answer: { type: 'string' },
+    sources: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          url: { type: 'string' },
+          snippet: { type: 'string' },
+          docs_version: { type: 'number' },
+          version_mismatch: { type: 'boolean' },
+          link_status: { type: 'string', enum: ['ok', 'moved', 'unknown'] },
+          moved_from: { type: 'string' },
+        },
+        required: ['title', 'url', 'snippet'],
       },
-      timeout: 30000,
-    });
-  }
+    },
+    strapi_version: {
+      type: 'object',
+      properties: {
+        version: { type: 'string' },
+        major: { type: 'number' },
+        source: { type: 'string' },
+      },
+      required: ['version', 'major', 'source'],
+    },
+    is_uncertain: { type: 'boolean' },
+    confidence: { type: 'number' },
+    thread_id: { type: 'string' },
+    question_answer_id: { type: 'string' },
+    project: { type: 'string' },
+    cached: { type: 'boolean' },
+    cached_at: { type: 'string' },
+    project_facts: { type: 'object' },
+    redactions: {
+      type: 'object',
+      properties: {
+        total: { type: 'number' },
+        detectors: { type: 'object' },
+      },
+      required: ['total', 'detectors'],
+    },
+    fallback: { type: 'boolean' },
+    fallback_reason: { type: 'string' },
+    provider: { type: 'string' },
+    provider_fallback_reason: { type: 'string' },
+  },
+  required: ['answer', 'sources', 'is_uncertain', 'confidence'],
+};
 
-  async query(request: KapaQueryRequest): Promise<KapaResponse> {
-    try {
-      // Endpoint exact selon la documentation
-      const endpoint = `/query/v1/projects/${this.projectId}/chat/`;
-      
-      // Payload selon le format officiel
-      const payload = {
-        query: request.query,
-        // Champs optionnels
-        ...(request.integration_id && { integration_id: request.integration_id }),
-        ...(request.source_ids_include && { source_ids_include: request.source_ids_include }),
-        // Métadonnées pour identifier la source
-        user: {
-          unique_client_id: 'mcp-server-user',
-          metadata: {
-            source: 'strapi-mcp-server'
-          }
+// Réponses de ask_strapi_docs_batch : une entrée par question, et les sources de toutes les réponses sans doublons
+const BATCH_ANSWER_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    strapi_version: DOCS_ANSWER_OUTPUT_SCHEMA.properties.strapi_version,
+    answered: { type: 'number' },
+    failed: { type: 'number' },
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          question: { type: 'string' },
+          ...DOCS_ANSWER_OUTPUT_SCHEMA.properties,
+          // Numéros (à partir de 1) des sources de la réponse dans la liste commune
+          source_refs: { type: 'array', items: { type: 'number' } },
+          error: { type: 'string' },
         },
-        metadata: {
-          origin_url: 'https://docs.strapi.io'
-        }
-      };
+        required: ['question'],
+      },
+    },
+    sources: {
+      type: 'array',
+      items: {
+        ...DOCS_ANSWER_OUTPUT_SCHEMA.properties.sources.items,
+        properties: {
+          ...DOCS_ANSWER_OUTPUT_SCHEMA.properties.sources.items.properties,
+          // Numéros (à partir de 1) des questions qui citent la source
+          questions: { type: 'array', items: { type: 'number' } },
+        },
+        required: [...DOCS_ANSWER_OUTPUT_SCHEMA.properties.sources.items.required, 'questions'],
+      },
+    },
+  },
+  required: ['answered', 'failed', 'results', 'sources'],
+};
 
-      // Debug logs removed for MCP compatibility
-      
-      const response = await this.client.post(endpoint, payload);
-      
-      // Debug: Response received successfully
-      
-      // Adapter la réponse selon le format officiel de Kapa
-      return this.adaptKapaResponse(response.data);
-      
-    } catch (error: any) {
-      // Log to stderr only for MCP compatibility
-      console.error('Kapa API Error:', error.response?.data || error.message);
-      
-      let errorMessage = 'Failed to query Kapa API';
-      
-      if (error.response) {
-        const status = error.response.status;
-        const data = error.response.data;
-        
-        switch (status) {
-          case 401:
-            errorMessage = 'Invalid API key. Please check your KAPA_API_KEY.';
-            break;
-          case 403:
-            errorMessage = 'Access forbidden. Please check your project permissions.';
-            break;
-          case 404:
-            errorMessage = 'Project not found. Please check your KAPA_PROJECT_ID.';
-            break;
-          case 422:
-            errorMessage = `Invalid request: ${data?.detail || 'Please check your request parameters.'}`;
-            break;
-          case 429:
-            errorMessage = 'Rate limit exceeded. Please try again later.';
-            break;
-          default:
-            errorMessage = `API error (${status}): ${data?.detail || data?.message || 'Unknown error'}`;
-        }
-      } else if (error.request) {
-        errorMessage = `Network error: Unable to reach Kapa API at ${error.config?.baseURL}`;
-      }
-      
-      throw new Error(errorMessage);
-    }
-  }
+// Réponse de get_strapi_code_example : réponse de documentation et blocs de code extraits
+const CODE_EXAMPLE_OUTPUT_SCHEMA = {
+  ...DOCS_ANSWER_OUTPUT_SCHEMA,
+  properties: {
+    ...DOCS_ANSWER_OUTPUT_SCHEMA.properties,
+    kind: { type: 'string' },
+    language: { type: 'string' },
+    file_path: { type: 'string' },
+    examples: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          language: { type: 'string' },
+          code: { type: 'string' },
+          title: { type: 'string' },
+          file_path: { type: 'string' },
+          source_url: { type: 'string' },
+        },
+        required: ['language', 'code'],
+      },
+    },
+  },
+  required: [...DOCS_ANSWER_OUTPUT_SCHEMA.required, 'kind', 'language', 'file_path', 'examples'],
+};
 
-  private adaptKapaResponse(data: any): KapaResponse {
-    // Format de réponse selon la documentation Kapa
-    const sources = (data.relevant_sources || []).map((source: any) => ({
-      title: source.title || source.name || 'Documentation',
-      url: source.source_url || source.url || '#',
-      snippet: source.snippet || source.content || source.excerpt || ''
-    }));
+// Rapport de plan_strapi_migration : résultats par fichier et conseils de la doc par catégorie
+const MIGRATION_PLAN_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    project_path: { type: 'string' },
+    strapi_version: DOCS_ANSWER_OUTPUT_SCHEMA.properties.strapi_version,
+    files_scanned: { type: 'number' },
+    findings: { type: 'number' },
+    truncated: { type: 'boolean' },
+    categories: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          title: { type: 'string' },
+          description: { type: 'string' },
+          count: { type: 'number' },
+          guidance: { type: 'string' },
+          sources: DOCS_ANSWER_OUTPUT_SCHEMA.properties.sources,
+          is_uncertain: { type: 'boolean' },
+          question_answer_id: { type: 'string' },
+          provider: { type: 'string' },
+          fallback_reason: { type: 'string' },
+          error: { type: 'string' },
+        },
+        required: ['id', 'title', 'description', 'count', 'sources'],
+      },
+    },
+    files: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          file: { type: 'string' },
+          findings: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                category: { type: 'string' },
+                file: { type: 'string' },
+                line: { type: 'number' },
+                text: { type: 'string' },
+              },
+              required: ['category', 'file', 'line', 'text'],
+            },
+          },
+        },
+        required: ['file', 'findings'],
+      },
+    },
+  },
+  required: ['project_path', 'files_scanned', 'findings', 'truncated', 'categories', 'files'],
+};
 
-    return {
-      answer: data.answer || 'No answer available',
-      sources: sources,
-      confidence: data.confidence || (data.is_uncertain ? 0.5 : 0.8),
-      thread_id: data.thread_id,
-      question_answer_id: data.question_answer_id,
-      is_uncertain: data.is_uncertain || false
-    };
-  }
+// Métadonnées d'un plugin du catalogue, avec sa compatibilité avec la version du projet
+const PLUGIN_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    description: { type: 'string' },
+    version: { type: 'string' },
+    strapi_versions: { type: 'array', items: { type: 'number' } },
+    strapi_range: { type: 'string' },
+    last_published: { type: 'string' },
+    docs_url: { type: 'string' },
+    npm_url: { type: 'string' },
+    keywords: { type: 'array', items: { type: 'string' } },
+    compatibility: { type: 'string', enum: ['compatible', 'incompatible', 'unknown'] },
+  },
+  required: ['name', 'description', 'version', 'strapi_versions', 'docs_url', 'npm_url', 'compatibility'],
+};
+
+// Réponse de la documentation sur l'installation d'un plugin
+const PLUGIN_SETUP_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    plugin: { type: 'string' },
+    answer: { type: 'string' },
+    sources: DOCS_ANSWER_OUTPUT_SCHEMA.properties.sources,
+    is_uncertain: { type: 'boolean' },
+    question_answer_id: { type: 'string' },
+    provider: { type: 'string' },
+    fallback_reason: { type: 'string' },
+  },
+  required: ['plugin', 'answer', 'sources', 'is_uncertain'],
+};
+
+const PLUGIN_SEARCH_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    query: { type: 'string' },
+    catalog: { type: 'string' },
+    strapi_version: DOCS_ANSWER_OUTPUT_SCHEMA.properties.strapi_version,
+    plugins: { type: 'array', items: PLUGIN_OUTPUT_SCHEMA },
+    setup: PLUGIN_SETUP_OUTPUT_SCHEMA,
+    setup_error: { type: 'string' },
+  },
+  required: ['query', 'catalog', 'plugins'],
+};
+
+const PLUGIN_INFO_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    catalog: { type: 'string' },
+    strapi_version: DOCS_ANSWER_OUTPUT_SCHEMA.properties.strapi_version,
+    plugin: PLUGIN_OUTPUT_SCHEMA,
+    setup: PLUGIN_SETUP_OUTPUT_SCHEMA,
+    setup_error: { type: 'string' },
+  },
+  required: ['catalog', 'plugin'],
+};
+
+// Fichiers montrés par catégorie dans le texte du plan de migration (tous restent dans structuredContent)
+const MAX_MIGRATION_CHECKLIST_FILES = 20;
+
+// Version majeure visée par les exemples de code quand elle n'est pas précisée
+const DEFAULT_CODE_EXAMPLE_MAJOR = 5;
 
-  async searchDocumentation(query: string, context?: string): Promise<KapaResponse> {
-    // Si un contexte est fourni, l'inclure dans la requête
-    const enhancedQuery = context 
-      ? `Context: ${context}\n\nQuestion: ${query}`
-      : query;
+// Threads et réponses suivis pour retrouver leur projet
+const MAX_TRACKED_ANSWERS = 1000;
 
-    return this.query({
-      query: enhancedQuery,
+export class StrapiKapaMCPServer {
+  // Une instance Server par client connecté (une seule en stdio, une par session en HTTP)
+  private servers = new Set<any>();
+  private httpServer?: any;
+  private projects = new Map<string, DocsProject>();
+  private answerProjects = new Map<string, string>();
+  private redactor: Redactor;
+  private cache?: ResponseCache<DocsAnswer>;
+  private pluginCatalog: PluginCatalog;
+  private sourceProcessor: SourceProcessor;
+  private access: AccessController;
+  private recentSources = new RecentSourcesRegistry();
+  private docsFetcher = new DocsPageFetcher();
+  private prompts: PromptRegistry;
+  private localIndex?: LocalDocsIndex;
+  private metrics = new MetricsRegistry();
+  private auditLog?: AuditLog;
+
+  constructor(private config: ServerConfig) {
+    this.cache = createResponseCache<DocsAnswer>(config.cache);
+    this.pluginCatalog = createPluginCatalog(config.plugins);
+    this.sourceProcessor = createSourceProcessor(config.sources);
+    this.access = new AccessController(config.access);
+    this.auditLog = createAuditLog(config);
+    this.prompts = createPromptRegistry(config.prompts_file);
+    this.redactor = createRedactor(config.redaction);
+
+    // Une chaîne de fournisseurs par projet Kapa ; LLM local et mock sont partagés
+    const shared = new Map<ProviderName, DocsProvider>();
+    const usesKapa = config.providers.includes('kapa');
+    const projectNames = usesKapa ? Object.keys(config.kapa.projects) : [config.kapa.default_project];
+
+    projectNames.forEach(name => {
+      const kapa = usesKapa ? config.kapa.projects[name] : undefined;
+      const chain = new ProviderChain(config.providers.map(provider => {
+        if (provider === 'kapa') {
+          return this.createKapaClient(kapa!);
+        }
+        if (!shared.has(provider)) {
+          shared.set(provider, this.createProvider(provider));
+        }
+        return shared.get(provider)!;
+      }));
+
+      this.projects.set(name, { name, kapa, chain, provider: new RedactingProvider(chain, this.redactor) });
     });
   }
 
-  // Méthode pour tester la connexion avec une requête simple
-  async testConnection(): Promise<{ success: boolean; message: string; details?: any }> {
-    try {
-      const response = await this.query({
-        query: "What is Strapi? Please provide a brief answer."
-      });
-      
-      if (response.answer && response.answer.length > 10) {
-        return {
-          success: true,
-          message: "Connection successful",
-          details: {
-            answer_length: response.answer.length,
-            sources_count: response.sources.length,
-            thread_id: response.thread_id,
-            is_uncertain: response.is_uncertain
-          }
-        };
-      } else {
-        return {
-          success: false,
-          message: "Connection established but received empty response"
-        };
-      }
-    } catch (error) {
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : String(error)
-      };
+  private createKapaClient(project: KapaProjectConfig): DocsProvider {
+    return new KapaClient(
+      project.api_key,
+      project.project_id,
+      project.api_url,
+      this.config.kapa.streaming,
+      this.cache,
+      {
+        requestsPerMinute: this.config.kapa.requests_per_minute,
+        maxConcurrent: this.config.kapa.max_concurrency,
+        maxRetries: this.config.kapa.max_retries,
+      },
+      this.metrics
+    );
+  }
+
+  private createProvider(name: Exclude<ProviderName, 'kapa'>): DocsProvider {
+    switch (name) {
+      case 'local':
+        return new LocalLlmProvider(
+          {
+            baseURL: this.config.local_llm!.url,
+            model: this.config.local_llm!.model,
+            apiKey: this.config.local_llm!.api_key,
+            contextSections: this.config.local_llm!.context_sections,
+          },
+          () => this.getLocalIndex()
+        );
+
+      case 'mock':
+        return new MockDocsProvider();
     }
   }
-}
 
-class StrapiKapaMCPServer {
-  private server: any;
-  private kapaClient: KapaClient;
+  // Projet demandé, sinon celui de la réponse ou du thread d'origine, sinon le projet par défaut
+  private resolveProjectName(name?: string, answerId?: string, user?: DocsUser): string {
+    return name || (answerId && this.answerProjects.get(scopedId(answerId, user))) || this.config.kapa.default_project;
+  }
 
-  constructor() {
-    // Validation des variables d'environnement
-    if (!process.env.KAPA_API_KEY) {
-      throw new Error('KAPA_API_KEY environment variable is required');
+  private getProject(name?: string, answerId?: string, user?: DocsUser): DocsProject {
+    const projectName = this.resolveProjectName(name, answerId, user);
+    const project = this.projects.get(projectName);
+    if (!project) {
+      throw new Error(`Unknown project "${projectName}". Expected one of: ${[...this.projects.keys()].join(', ')}`);
     }
-    if (!process.env.KAPA_PROJECT_ID) {
-      throw new Error('KAPA_PROJECT_ID environment variable is required');
+    return project;
+  }
+
+  private trackAnswer(project: DocsProject, answer: DocsAnswer, user?: DocsUser): void {
+    [answer.thread_id, answer.question_answer_id].forEach(id => {
+      if (!id) return;
+      const key = scopedId(id, user);
+      this.answerProjects.delete(key);
+      this.answerProjects.set(key, project.name);
+    });
+
+    while (this.answerProjects.size > MAX_TRACKED_ANSWERS) {
+      const oldest = this.answerProjects.keys().next().value;
+      if (oldest === undefined) break;
+      this.answerProjects.delete(oldest);
     }
+  }
+
+  // Fournisseurs à tester, sans doublon : les fournisseurs partagés ne sont testés qu'une fois
+  private async checkProviders(projects: DocsProject[]): Promise<Array<ProviderHealth & { provider: string; project?: string }>> {
+    const seen = new Set<DocsProvider>();
+    const targets = projects.flatMap(project => project.chain.providers
+      .filter(provider => !seen.has(provider) && seen.add(provider))
+      .map(provider => ({ project, provider })));
+
+    return Promise.all(targets.map(async ({ project, provider }) => ({
+      ...await project.chain.checkProvider(provider),
+      ...(provider.name === 'kapa' && { project: project.name }),
+    })));
+  }
 
-    this.server = new Server(
+  private createServer(): any {
+    const server = new Server(
       {
-        name: process.env.MCP_SERVER_NAME || 'strapi-docs',
+        name: this.config.server.name,
         version: '1.0.0',
       },
       {
         capabilities: {
           tools: {},
+          resources: {
+            listChanged: true,
+          },
+          prompts: {},
         },
       }
     );
 
-    this.kapaClient = new KapaClient(
-      process.env.KAPA_API_KEY!,
-      process.env.KAPA_PROJECT_ID!,
-      process.env.KAPA_API_URL || 'https://api.kapa.ai'
-    );
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
 
-    this.setupToolHandlers();
-    this.setupErrorHandling();
-    this.performStartupTest();
+    server.onerror = (error: any) => {
+      logger.error('[MCP Error]', { error: error.message || String(error) });
+    };
+    server.onclose = () => {
+      this.servers.delete(server);
+    };
+
+    this.servers.add(server);
+    return server;
   }
 
+  // Sans server.startup_check (STARTUP_CHECK), aucune requête : la configuration est déjà validée
   private async performStartupTest() {
+    if (!this.config.server.startup_check) {
+      for (const project of this.projects.values()) {
+        const providers = project.chain.providers.map(provider => provider.name).join(', ');
+        logger.info(`Project ${project.name}: ${providers} (connection not tested, see test_kapa_connection)`);
+      }
+      return;
+    }
+
     try {
-      const result = await this.kapaClient.testConnection();
-      if (result.success) {
-        console.error('✅ Kapa API connection successful'); // Use stderr for MCP
-      } else {
-        console.error('❌ Kapa API connection failed:', result.message);
+      for (const result of await this.checkProviders([...this.projects.values()])) {
+        const name = result.project ? `${result.provider} (${result.project})` : result.provider;
+        if (result.success) {
+          logger.info(`✅ ${name} provider connection successful`); // Use stderr for MCP
+        } else {
+          logger.error(`❌ ${name} provider connection failed`, { error: result.message });
+        }
       }
     } catch (error) {
-      console.error('❌ Startup test error:', error);
+      logger.error('❌ Startup test error', { error: errorMessage(error) });
     }
   }
 
-  private setupToolHandlers(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  private setupToolHandlers(server: any): void {
+    // Seuls les outils autorisés pour l'appelant sont listés
+    server.setRequestHandler(ListToolsRequestSchema, async (_request: any, extra: any) => {
+      const identity = this.identify(server, extra);
       return {
         tools: [
           {
             name: 'query_strapi_docs',
-            description: 'Query Strapi documentation using Kapa AI assistant. Provides detailed answers with sources from official Strapi documentation.',
-            inputSchema: {
+            description: 'Query Strapi documentation using Kapa AI assistant (or the configured answer provider). Provides detailed answers with sources from official Strapi documentation.',
+            inputSchema: this.inputSchema('query_strapi_docs'),
+            outputSchema: DOCS_ANSWER_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'ask_strapi_docs_batch',
+            description: 'Ask several Strapi documentation questions in one call (e.g., for a design review). The questions share the context, Strapi version and sections, run in parallel, and each gets its own answer or error, followed by one deduplicated list of sources.',
+            inputSchema: this.inputSchema('ask_strapi_docs_batch'),
+            outputSchema: BATCH_ANSWER_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'continue_strapi_thread',
+            description: 'Ask a follow-up question in an existing Kapa conversation. Use the Thread ID returned by a previous query_strapi_docs answer to keep the context of the conversation.',
+            inputSchema: this.inputSchema('continue_strapi_thread'),
+            outputSchema: DOCS_ANSWER_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'test_kapa_connection',
+            description: 'Test the connection to the configured answer providers (Kapa API, local LLM, mock) to verify configuration and API key validity.',
+            inputSchema: this.inputSchema('test_kapa_connection'),
+            outputSchema: {
               type: 'object',
               properties: {
-                query: {
-                  type: 'string',
-                  description: 'The question or topic you want to search in Strapi documentation (max 15000 characters)',
+                success: { type: 'boolean' },
+                message: { type: 'string' },
+                providers: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      provider: { type: 'string' },
+                      project: { type: 'string' },
+                      success: { type: 'boolean' },
+                      message: { type: 'string' },
+                      details: { type: 'object' },
+                    },
+                    required: ['provider', 'success', 'message'],
+                  },
                 },
-                context: {
-                  type: 'string',
-                  description: 'Optional context about your current development situation (e.g., version, specific feature)',
+                configuration: {
+                  type: 'object',
+                  properties: {
+                    api_url: { type: 'string' },
+                    project_id: { type: 'string' },
+                  },
                 },
+                projects: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                      description: { type: 'string' },
+                      api_url: { type: 'string' },
+                      project_id: { type: 'string' },
+                      default: { type: 'boolean' },
+                    },
+                    required: ['name', 'api_url', 'project_id', 'default'],
+                  },
+                },
+                config_file: { type: 'string' },
               },
-              required: ['query'],
+              required: ['success', 'message'],
             },
           },
           {
-            name: 'test_kapa_connection',
-            description: 'Test the connection to Kapa API to verify configuration and API key validity.',
-            inputSchema: {
+            name: 'get_strapi_best_practices',
+            description: 'Get Strapi best practices and recommendations for specific topics or features.',
+            inputSchema: this.inputSchema('get_strapi_best_practices'),
+            outputSchema: DOCS_ANSWER_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'troubleshoot_strapi_issue',
+            description: 'Get help troubleshooting specific Strapi issues or errors. With project_path (and log_file), facts about the project are collected and sent along: Strapi, Node.js and database versions, installed plugins and the last error stack trace from the log, with secrets redacted.',
+            inputSchema: this.inputSchema('troubleshoot_strapi_issue'),
+            outputSchema: DOCS_ANSWER_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'get_strapi_code_example',
+            description: 'Get a concrete code snippet for a Strapi controller, service, route, policy, middleware, lifecycle hook, plugin register/bootstrap or cron task, for a given Strapi version and language (JS/TS). The fenced code blocks of the answer are returned as separate content items with their language, the target file path in a Strapi project and the source URL.',
+            inputSchema: this.inputSchema('get_strapi_code_example'),
+            outputSchema: CODE_EXAMPLE_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'plan_strapi_migration',
+            description: 'Plan the migration of a Strapi v4 project to Strapi v5. Scans the project source locally for v4-only patterns (entityService calls, strapi.query usage, data.attributes nesting in front-end fetches, v4 lifecycle hooks, old plugin APIs), groups the findings by file and asks the documentation for the v5 migration guidance of each category. Returns a checklist with file:line references and doc links.',
+            inputSchema: this.inputSchema('plan_strapi_migration'),
+            outputSchema: MIGRATION_PLAN_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'find_strapi_plugin',
+            description: 'Find Strapi plugins that solve a problem, from the plugin catalog (npm registry or local snapshot). Returns name, description, supported Strapi versions, last publish date and docs link, checked against the Strapi version of your project, with the documentation answer about setting up the best match.',
+            inputSchema: this.inputSchema('find_strapi_plugin'),
+            outputSchema: PLUGIN_SEARCH_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'get_strapi_plugin_info',
+            description: 'Get the metadata of a Strapi plugin (description, supported Strapi versions, last publish date, docs link), whether it supports the Strapi version of your project, and the documentation answer about setting it up.',
+            inputSchema: this.inputSchema('get_strapi_plugin_info'),
+            outputSchema: PLUGIN_INFO_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'search_strapi_docs_local',
+            description: 'Full-text search over a local snapshot of the Strapi documentation. Returns ranked page sections with URLs and raw excerpts. Works without Kapa (offline, rate-limited or invalid key).',
+            inputSchema: this.inputSchema('search_strapi_docs_local'),
+            outputSchema: {
               type: 'object',
-              properties: {},
-              required: [],
+              properties: {
+                query: { type: 'string' },
+                results: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      title: { type: 'string' },
+                      url: { type: 'string' },
+                      excerpt: { type: 'string' },
+                      score: { type: 'number' },
+                    },
+                    required: ['title', 'url', 'excerpt', 'score'],
+                  },
+                },
+                index_built_at: { type: 'string' },
+                index_sections: { type: 'number' },
+              },
+              required: ['query', 'results'],
             },
           },
           {
-            name: 'get_strapi_best_practices',
-            description: 'Get Strapi best practices and recommendations for specific topics or features.',
-            inputSchema: {
+            name: 'list_doc_sections',
+            description: 'List the Strapi documentation sections that can be passed in the "sections" argument of the documentation tools, and whether they are mapped to Kapa sources.',
+            inputSchema: this.inputSchema('list_doc_sections'),
+            outputSchema: {
               type: 'object',
               properties: {
-                topic: {
-                  type: 'string',
-                  description: 'The Strapi topic or feature you want best practices for (e.g., "content types", "plugins", "deployment")',
-                },
-                project_type: {
-                  type: 'string',
-                  description: 'Type of project (e.g., "REST API", "GraphQL", "headless CMS")',
+                sections: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                      title: { type: 'string' },
+                      description: { type: 'string' },
+                      source_ids: { type: 'array', items: { type: 'string' } },
+                      url_prefixes: { type: 'array', items: { type: 'string' } },
+                    },
+                    required: ['name', 'title', 'description', 'source_ids', 'url_prefixes'],
+                  },
                 },
               },
-              required: ['topic'],
+              required: ['sections'],
             },
           },
           {
-            name: 'troubleshoot_strapi_issue',
-            description: 'Get help troubleshooting specific Strapi issues or errors.',
-            inputSchema: {
+            name: 'rate_strapi_answer',
+            description: 'Upvote or downvote a Kapa answer so the Strapi documentation team can review bad answers. Use the Question answer ID returned with every answer.',
+            inputSchema: this.inputSchema('rate_strapi_answer'),
+            outputSchema: {
               type: 'object',
               properties: {
-                issue_description: {
-                  type: 'string',
-                  description: 'Detailed description of the issue or error you are experiencing',
-                },
-                error_message: {
-                  type: 'string',
-                  description: 'The exact error message if available',
-                },
-                strapi_version: {
-                  type: 'string',
-                  description: 'Your Strapi version (e.g., "4.15.0", "5.0.0")',
+                success: { type: 'boolean' },
+                question_answer_id: { type: 'string' },
+                reaction: { type: 'string' },
+              },
+              required: ['success', 'question_answer_id', 'reaction'],
+            },
+          },
+          {
+            name: 'cache_stats',
+            description: 'Show statistics of the Kapa answer cache (store, entries, hits, misses, TTL).',
+            inputSchema: this.inputSchema('cache_stats'),
+            outputSchema: {
+              type: 'object',
+              properties: {
+                enabled: { type: 'boolean' },
+                store: { type: 'string' },
+                entries: { type: 'number' },
+                hits: { type: 'number' },
+                misses: { type: 'number' },
+                hit_rate: { type: 'number' },
+                ttl_seconds: { type: 'number' },
+              },
+              required: ['enabled'],
+            },
+          },
+          {
+            name: 'clear_cache',
+            description: 'Clear all cached Kapa answers so that the next questions are sent to Kapa again.',
+            inputSchema: this.inputSchema('clear_cache'),
+            outputSchema: {
+              type: 'object',
+              properties: {
+                enabled: { type: 'boolean' },
+                cleared: { type: 'number' },
+              },
+              required: ['enabled', 'cleared'],
+            },
+          },
+          {
+            name: 'usage_report',
+            description: 'Summarize the usage of this server over a time window: calls and latency per tool, errors, Kapa error codes, uncertain-answer rate and cache hit rate.',
+            inputSchema: this.inputSchema('usage_report'),
+            outputSchema: {
+              type: 'object',
+              properties: {
+                window_start: { type: 'string' },
+                window_end: { type: 'string' },
+                calls: { type: 'number' },
+                errors: { type: 'number' },
+                answers: { type: 'number' },
+                uncertain_rate: { type: 'number' },
+                cache_hit_rate: { type: 'number' },
+                tools: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      tool: { type: 'string' },
+                      calls: { type: 'number' },
+                      errors: { type: 'number' },
+                      avg_ms: { type: 'number' },
+                      p95_ms: { type: 'number' },
+                      answers: { type: 'number' },
+                      uncertain_rate: { type: 'number' },
+                      cache_hit_rate: { type: 'number' },
+                    },
+                    required: ['tool', 'calls', 'errors', 'avg_ms', 'p95_ms', 'answers'],
+                  },
                 },
+                providers: { type: 'object' },
+                kapa_errors: { type: 'object' },
+                truncated: { type: 'boolean' },
               },
-              required: ['issue_description'],
+              required: ['window_start', 'window_end', 'calls', 'errors', 'answers', 'tools', 'providers', 'kapa_errors', 'truncated'],
             },
           },
-        ],
+        ].filter(tool => this.access.isToolAllowed(identity, tool.name)),
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request: any, extra: any) => {
       const { name, arguments: args } = request.params;
+      const startedAt = Date.now();
+      let identity: ClientIdentity | undefined;
 
       try {
-        switch (name) {
-          case 'query_strapi_docs':
-            return await this.handleQueryStrapiDocs(args as any);
-          
-          case 'test_kapa_connection':
-            return await this.handleTestConnection();
-          
-          case 'get_strapi_best_practices':
-            return await this.handleGetBestPractices(args as any);
-          
-          case 'troubleshoot_strapi_issue':
-            return await this.handleTroubleshootIssue(args as any);
-          
-          default:
-            throw new Error(`Unknown tool: ${name}`);
+        if (!isToolName(name)) {
+          throw unknownTool(name);
         }
+        const call = parseToolCall(name, args, [...this.projects.keys()]);
+        // Droits et quotas de l'appelant, avant tout appel à un fournisseur
+        const caller = this.identify(server, extra);
+        identity = caller;
+        const user = this.access.toDocsUser(caller);
+        this.access.checkLocalPaths(this.getLocalPaths(call), this.config.server.transport === 'http');
+        this.access.authorize(
+          caller,
+          name,
+          acceptsProject(name) ? this.resolveCallProject(call, user) : undefined,
+          getQuotaCost(call)
+        );
+        const result = await this.callTool(call, {
+          ...this.createQueryOptions(request, extra),
+          user,
+        }, cost => this.access.consume(caller, cost));
+        this.recordToolCall(name, args, startedAt, result, undefined, identity);
+        return result;
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.recordToolCall(name, args, startedAt, undefined, error, identity);
+        // Arguments invalides : erreur JSON-RPC InvalidParams avec le détail par champ
+        if (error instanceof McpError) {
+          throw error;
+        }
         return {
           content: [
             {
               type: 'text',
-              text: `❌ Error: ${errorMessage}`,
+              text: `❌ Error: ${errorMessage(error)}`,
             },
           ],
           isError: true,
@@ -336,35 +826,313 @@ class StrapiKapaMCPServer {
     });
   }
 
-  private async handleTestConnection() {
+  // Projet de l'appel : argument project, sinon celui du thread ou de la réponse d'origine
+  private resolveCallProject(call: ToolCall, user: DocsUser): string {
+    const { args } = call;
+    const project = 'project' in args ? args.project : undefined;
+    const answerId = 'thread_id' in args ? args.thread_id
+      : 'question_answer_id' in args ? args.question_answer_id
+      : undefined;
+    return this.resolveProjectName(project, answerId, user);
+  }
+
+  // Fichiers locaux que l'appel fera lire au serveur
+  private getLocalPaths(call: ToolCall): LocalPaths {
+    const { args } = call;
+    return {
+      project_path: 'project_path' in args ? args.project_path : undefined,
+      log_file: 'log_file' in args ? args.log_file : undefined,
+    };
+  }
+
+  private async callTool(call: ToolCall, queryOptions: DocsQueryOptions, consumeQuota: (cost: number) => void) {
+    switch (call.name) {
+      case 'query_strapi_docs':
+        return await this.handleQueryStrapiDocs(call.args, queryOptions);
+      
+      case 'ask_strapi_docs_batch':
+        return await this.handleAskBatch(call.args, queryOptions);
+      
+      case 'continue_strapi_thread':
+        return await this.handleContinueThread(call.args, queryOptions);
+      
+      case 'test_kapa_connection':
+        return await this.handleTestConnection(call.args);
+      
+      case 'get_strapi_best_practices':
+        return await this.handleGetBestPractices(call.args, queryOptions);
+      
+      case 'troubleshoot_strapi_issue':
+        return await this.handleTroubleshootIssue(call.args, queryOptions);
+      
+      case 'get_strapi_code_example':
+        return await this.handleGetCodeExample(call.args, queryOptions);
+      
+      case 'plan_strapi_migration':
+        return await this.handlePlanMigration(call.args, queryOptions, consumeQuota);
+      
+      case 'find_strapi_plugin':
+        return await this.handleFindPlugin(call.args, queryOptions);
+      
+      case 'get_strapi_plugin_info':
+        return await this.handleGetPluginInfo(call.args, queryOptions);
+      
+      case 'search_strapi_docs_local':
+        return await this.handleSearchLocal(call.args);
+      
+      case 'list_doc_sections':
+        return await this.handleListDocSections(call.args);
+      
+      case 'rate_strapi_answer':
+        return await this.handleRateAnswer(call.args, queryOptions);
+      
+      case 'cache_stats':
+        return await this.handleCacheStats();
+      
+      case 'clear_cache':
+        return await this.handleClearCache();
+      
+      case 'usage_report':
+        return await this.handleUsageReport(call.args);
+
+    }
+  }
+
+  // Schéma JSON d'entrée généré depuis le schéma Zod de l'outil
+  private inputSchema(name: ToolName): Record<string, any> {
+    return toInputJsonSchema(name, [...this.projects.keys()]);
+  }
+
+  // Métriques, journal structuré et journal d'audit pour chaque appel d'outil
+  private recordToolCall(name: string, args: any, startedAt: number, result?: any, error?: unknown, identity?: ClientIdentity): void {
+    const durationMs = Date.now() - startedAt;
+    const structured = result?.structuredContent || {};
+    const status = error !== undefined ? 'error' : 'success';
+    const isAnswer = typeof structured.is_uncertain === 'boolean';
+
+    this.metrics.recordToolCall({
+      timestamp: startedAt,
+      // Noms inconnus regroupés : un nom envoyé par le client ne crée pas de nouvelle série
+      tool: isToolName(name) ? name : 'unknown',
+      status,
+      duration_ms: durationMs,
+      provider: structured.provider,
+      ...(isAnswer && { uncertain: structured.is_uncertain, cached: !!structured.cached }),
+    });
+
+    logger.info('Tool call', {
+      tool: name,
+      ...(identity && { user: identity.id }),
+      status,
+      duration_ms: durationMs,
+      provider: structured.provider,
+      ...(error !== undefined && { error: errorMessage(error) }),
+    });
+
+    this.auditLog?.record({
+      timestamp: new Date(startedAt).toISOString(),
+      tool: name,
+      ...(identity && { user: identity.id }),
+      arguments: args || {},
+      status,
+      duration_ms: durationMs,
+      ...(structured.provider && { provider: structured.provider }),
+      ...(structured.thread_id && { thread_id: structured.thread_id }),
+      ...(structured.question_answer_id && { question_answer_id: structured.question_answer_id }),
+      ...(isAnswer && { is_uncertain: structured.is_uncertain, cached: !!structured.cached }),
+      ...(error !== undefined && { error: errorMessage(error) }),
+    });
+  }
+
+  // Identité de l'appelant : en-têtes HTTP de la requête et informations du client MCP.
+  // Un jeton invalide est refusé par une erreur JSON-RPC, pour la liste des outils comme pour les appels
+  private identify(server: any, extra: any): ClientIdentity {
+    try {
+      return this.access.identify(extra?.requestInfo?.headers, server.getClientVersion());
+    } catch (error) {
+      if (error instanceof AccessError) {
+        throw new McpError(ErrorCode.InvalidRequest, error.message);
+      }
+      throw error;
+    }
+  }
+
+  // Relaie les morceaux de réponse en notifications/progress si le client a fourni un progressToken
+  private createQueryOptions(request: any, extra: any): DocsQueryOptions {
+    const progressToken = request.params._meta?.progressToken;
+    const options: DocsQueryOptions = { signal: extra?.signal };
+
+    if (progressToken !== undefined && extra?.sendNotification) {
+      let progress = 0;
+      options.onChunk = (text: string) => {
+        progress += 1;
+        extra.sendNotification({
+          method: 'notifications/progress',
+          params: {
+            progressToken,
+            progress,
+            message: text,
+          },
+        }).catch((error: any) => {
+          logger.error('[MCP Error] Failed to send progress notification', { error: error.message || String(error) });
+        });
+      };
+    }
+
+    return options;
+  }
+
+  private setupResourceHandlers(server: any): void {
+    // Sources des réponses récentes
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: this.recentSources.list().map(source => ({
+          uri: source.uri,
+          name: source.title,
+          description: source.snippet || source.url,
+          mimeType: 'text/markdown',
+        })),
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: [DOCS_RESOURCE_TEMPLATE],
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request: any) => {
+      const { uri } = request.params;
+      let url: string;
+
+      if (uri.startsWith(`${DOCS_URI_SCHEME}://`)) {
+        url = docsUriToUrl(uri);
+      } else {
+        // Seules les URLs déjà citées dans une réponse peuvent être récupérées
+        const source = this.recentSources.get(uri);
+        if (!source) {
+          throw new Error(`Unknown resource: ${uri}. Use a ${DOCS_URI_SCHEME}:// URI or a source listed in resources/list.`);
+        }
+        url = source.url;
+      }
+
+      const page = await this.docsFetcher.fetch(url);
+
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: 'text/markdown',
+            text: `${page.title ? `# ${page.title}\n\n` : ''}Source: ${url}\n\n${page.markdown}`,
+          },
+        ],
+      };
+    });
+  }
+
+  private setupPromptHandlers(server: any): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: this.prompts.list().map(prompt => ({
+          name: prompt.name,
+          ...(prompt.title && { title: prompt.title }),
+          ...(prompt.description && { description: prompt.description }),
+          arguments: (prompt.arguments || []).map(argument => ({
+            name: argument.name,
+            description: argument.enum
+              ? `${argument.description || argument.name} (one of: ${argument.enum.join(', ')})`
+              : argument.description,
+            required: !!argument.required,
+          })),
+        })),
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request: any) => {
+      const { name, arguments: args } = request.params;
+      const prompt = this.prompts.get(name);
+
+      return {
+        description: prompt?.description,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: this.prompts.render(name, args || {}),
+            },
+          },
+        ],
+      };
+    });
+  }
+
+  private async handleTestConnection(args: ToolArguments<'test_kapa_connection'>) {
     try {
-      const result = await this.kapaClient.testConnection();
+      const selected = args.project ? [this.getProject(args.project)] : [...this.projects.values()];
+      const providers = await this.checkProviders(selected);
+      const failed = providers.filter(provider => !provider.success);
+      const label = (provider: { provider: string; project?: string }) =>
+        provider.project && this.projects.size > 1 ? `${provider.provider} (${provider.project})` : provider.provider;
+      const result = {
+        success: failed.length === 0,
+        message: failed.length === 0
+          ? 'All providers are available'
+          : `Unavailable: ${failed.map(provider => `${label(provider)} (${provider.message})`).join(', ')}`,
+      };
+      const kapaProjects = selected.flatMap(project => project.kapa ? [project.kapa] : []);
+      const configured = args.project ? kapaProjects[0] : this.projects.get(this.config.kapa.default_project)?.kapa;
       
       const statusIcon = result.success ? '✅' : '❌';
-      let responseText = `${statusIcon} Kapa API Connection Test\n\n`;
+      let responseText = `${statusIcon} Docs Provider Connection Test\n\n`;
       responseText += `Status: ${result.success ? 'SUCCESS' : 'FAILED'}\n`;
       responseText += `Message: ${result.message}\n\n`;
 
-      if (result.details) {
-        responseText += `Details:\n`;
-        responseText += `- Answer length: ${result.details.answer_length} characters\n`;
-        responseText += `- Sources found: ${result.details.sources_count}\n`;
-        responseText += `- Thread ID: ${result.details.thread_id}\n`;
-        responseText += `- Uncertain: ${result.details.is_uncertain ? 'Yes' : 'No'}\n\n`;
-      }
+      responseText += `Providers (in fallback order):\n`;
+      providers.forEach(provider => {
+        responseText += `- ${provider.success ? '✅' : '❌'} ${label(provider)}: ${provider.message}\n`;
+        Object.entries(provider.details || {}).forEach(([key, value]) => {
+          responseText += `  - ${key}: ${value}\n`;
+        });
+      });
 
-      responseText += `Configuration:\n`;
-      responseText += `- API URL: ${process.env.KAPA_API_URL || 'https://api.kapa.ai'}\n`;
-      responseText += `- Project ID: ${process.env.KAPA_PROJECT_ID}\n`;
-      responseText += `- API Key: ${process.env.KAPA_API_KEY ? '***' + process.env.KAPA_API_KEY.slice(-4) : 'Not set'}`;
+      if (kapaProjects.length > 0) {
+        responseText += `\nKapa configuration${this.config.file ? ` (${this.config.file})` : ''}:\n`;
+        kapaProjects.forEach(project => {
+          const isDefault = project.name === this.config.kapa.default_project;
+          responseText += `- Project "${project.name}"${isDefault ? ' (default)' : ''}${project.description ? `: ${project.description}` : ''}\n`;
+          responseText += `  - API URL: ${project.api_url}\n`;
+          responseText += `  - Project ID: ${project.project_id}\n`;
+          responseText += `  - API Key: ${maskApiKey(project.api_key)}\n`;
+        });
+      }
       
       return {
         content: [
           {
             type: 'text',
-            text: responseText,
+            text: responseText.trimEnd(),
           },
         ],
+        structuredContent: {
+          success: result.success,
+          message: result.message,
+          providers,
+          ...(configured && {
+            configuration: {
+              api_url: configured.api_url,
+              project_id: configured.project_id,
+            },
+            projects: kapaProjects.map(project => ({
+              name: project.name,
+              ...(project.description && { description: project.description }),
+              api_url: project.api_url,
+              project_id: project.project_id,
+              default: project.name === this.config.kapa.default_project,
+            })),
+          }),
+          ...(this.config.file && { config_file: this.config.file }),
+        },
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -375,54 +1143,264 @@ class StrapiKapaMCPServer {
             text: `❌ Connection test failed: ${errorMessage}`,
           },
         ],
+        structuredContent: {
+          success: false,
+          message: errorMessage,
+        },
       };
     }
   }
 
-  private async handleQueryStrapiDocs(args: { query: string; context?: string }) {
-    const response = await this.kapaClient.searchDocumentation(args.query, args.context);
-    
-    let responseText = response.answer;
+  private async handleQueryStrapiDocs(
+    args: ToolArguments<'query_strapi_docs'>,
+    options: DocsQueryOptions = {}
+  ) {
+    const project = this.getProject(args.project, args.thread_id, options.user);
+    const version = await resolveStrapiVersion(args);
+    const response = await this.withLocalFallback(project, args.query, args.sections, options, (provider) => provider.query(
+      args.query,
+      this.withQueryContext(args.context, version, args.sections),
+      {
+        thread_id: args.thread_id,
+        ...this.getSourceParams(project, version, args.sections),
+      },
+      options
+    ));
     
-    // Ajouter des informations sur l'incertitude
-    if (response.is_uncertain) {
-      responseText += '\n\n⚠️ *Note: The AI is uncertain about this answer. Please verify the information.*';
-    }
+    return this.formatDocsAnswer(response, args.format, version);
+  }
+
+  private async handleContinueThread(
+    args: ToolArguments<'continue_strapi_thread'>,
+    options: DocsQueryOptions = {}
+  ) {
+    const project = this.getProject(args.project, args.thread_id, options.user);
+    const version = await resolveStrapiVersion(args);
+    const response = await this.withLocalFallback(project, args.query, args.sections, options, (provider) => provider.continueThread(
+      args.thread_id,
+      args.query,
+      this.getSourceParams(project, version, args.sections),
+      options
+    ));
     
-    // Ajouter les sources si disponibles
-    if (response.sources && response.sources.length > 0) {
-      const validSources = response.sources.filter(source => 
-        source.url && 
-        (source.url.startsWith('http') || source.url.startsWith('https')) &&
-        source.url !== '#'
-      );
-      
-      if (validSources.length > 0) {
-        responseText += '\n\n**📚 Sources:**\n';
-        validSources.forEach((source, index) => {
-          let title = source.title || 'Documentation';
-          
-          // Nettoyer le titre s'il contient des séparateurs
-          if (title.includes('|')) {
-            const parts = title.split('|');
-            const pageTitle = parts[0].trim();
-            const sectionTitle = parts[1]?.trim();
-            
-            if (sectionTitle && sectionTitle !== pageTitle) {
-              title = `${pageTitle} - ${sectionTitle}`;
-            } else {
-              title = pageTitle;
-            }
-          }
-          
-          responseText += `${index + 1}. [${title}](${source.url})\n`;
-        });
+    return this.formatDocsAnswer(response, args.format, version);
+  }
+
+  // Questions posées en parallèle (au plus max_concurrency à la fois) ; un échec n'arrête pas les autres
+  private async handleAskBatch(
+    args: ToolArguments<'ask_strapi_docs_batch'>,
+    options: DocsQueryOptions = {}
+  ) {
+    const project = this.getProject(args.project);
+    const version = await resolveStrapiVersion(args);
+    const limiter = new ConcurrencyLimiter(this.config.kapa.max_concurrency);
+
+    // Les morceaux de réponses parallèles seraient illisibles : la progression signale chaque question terminée
+    const { onChunk, ...questionOptions } = options;
+    const reportDone = (index: number, status: string) => onChunk?.(`Question ${index + 1}/${args.questions.length} ${status}`, '');
+
+    const answers = await Promise.all(args.questions.map((question, index) => limiter.run(async () => {
+      try {
+        const response = await this.withLocalFallback(project, question, args.sections, questionOptions, (provider) => provider.query(
+          question,
+          this.withQueryContext(args.context, version, args.sections),
+          this.getSourceParams(project, version, args.sections),
+          questionOptions
+        ));
+        reportDone(index, 'answered');
+        return { question, response };
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        reportDone(index, 'failed');
+        return { question, error: errorMessage(error) };
+      }
+    }, options.signal)));
+
+    // Liste commune des sources, dans l'ordre des questions, avec les questions qui les citent
+    const sources: Array<AnswerSource & { questions: number[] }> = [];
+    const results = answers.map(({ question, response, error }, index) => {
+      if (!response) {
+        return { question, error: error! };
+      }
+
+      const answerSources = this.applyVersionToSources(response.sources, version);
+      const refs = answerSources.map(source => {
+        let ref = sources.findIndex(merged => canonicalizeUrl(merged.url) === canonicalizeUrl(source.url));
+        if (ref === -1) {
+          ref = sources.push({ ...source, questions: [] }) - 1;
+        }
+        if (!sources[ref].questions.includes(index + 1)) {
+          sources[ref].questions.push(index + 1);
+        }
+        return ref + 1;
+      });
+
+      const { strapi_version: _version, ...structured } = this.toStructuredAnswer(response, answerSources);
+      return { question, ...structured, source_refs: [...new Set(refs)] };
+    });
+
+    this.publishSources(sources);
+    const failed = results.filter(result => 'error' in result).length;
+    const structured = {
+      ...(version && { strapi_version: version }),
+      answered: results.length - failed,
+      failed,
+      results,
+      sources: sources.map(source => ({ ...this.toStructuredSource(source), questions: source.questions })),
+    };
+
+    return {
+      content: [{ type: 'text', text: this.formatBatchAnswers(structured, args.format || 'markdown') }],
+      structuredContent: structured,
+    };
+  }
+
+  private formatBatchAnswers(batch: any, format: OutputFormat): string {
+    if (format === 'json') {
+      return JSON.stringify(batch, null, 2);
+    }
+
+    const markdown = format === 'markdown';
+    const count = `${batch.results.length} question${batch.results.length > 1 ? 's' : ''}${batch.failed > 0 ? `, ${batch.failed} failed` : ''}`;
+    let responseText = markdown ? `**📦 Batch answers (${count})**\n\n` : `Batch answers (${count})\n\n`;
+
+    if (batch.strapi_version) {
+      const versionText = `Strapi v${batch.strapi_version.major} (${batch.strapi_version.version}, from ${batch.strapi_version.source})`;
+      responseText += markdown ? `🏷️ *${versionText}*\n\n` : `${versionText}\n\n`;
+    }
+
+    responseText += batch.results.map((result: any, index: number) => {
+      const lines = [markdown ? `### ${index + 1}. ${result.question}` : `${index + 1}. ${result.question}`];
+
+      if (result.error) {
+        lines.push(markdown ? `❌ *Error: ${result.error}*` : `Error: ${result.error}`);
+        return lines.join('\n\n');
+      }
+
+      if (result.fallback_reason) {
+        const fallbackText = `Offline fallback (${result.fallback_reason}): raw excerpts from the local Strapi docs index, not an AI-generated answer.`;
+        lines.push(markdown ? `📴 *${fallbackText}*` : fallbackText);
       }
+      lines.push(result.answer);
+      if (result.is_uncertain && !result.fallback_reason) {
+        const note = 'Note: The AI is uncertain about this answer. Please verify the information.';
+        lines.push(markdown ? `⚠️ *${note}*` : note);
+      }
+
+      const notes = [
+        result.source_refs.length > 0 && `Sources: ${result.source_refs.map((ref: number) => `[${ref}]`).join(', ')}`,
+        result.thread_id && `Thread ID: ${result.thread_id}`,
+        result.question_answer_id && `Question answer ID: ${result.question_answer_id}`,
+      ].filter(Boolean).join(' · ');
+      if (notes) {
+        lines.push(markdown ? `*${notes}*` : notes);
+      }
+      return lines.join('\n\n');
+    }).join('\n\n');
+
+    if (batch.sources.length > 0) {
+      responseText += markdown ? `\n\n**📚 Sources:**\n` : `\n\nSources:\n`;
+      responseText += this.formatSources(batch.sources, format);
     }
-    
-    // Ajouter l'ID du thread pour un éventuel suivi
-    if (response.thread_id) {
-      responseText += `\n\n*Thread ID: ${response.thread_id}*`;
+
+    if (batch.results.some((result: any) => result.question_answer_id)) {
+      responseText += markdown
+        ? `\n\n*Use continue_strapi_thread to ask a follow-up and rate_strapi_answer to give feedback on an answer.*`
+        : `\n\nUse continue_strapi_thread to ask a follow-up and rate_strapi_answer to give feedback on an answer.`;
+    }
+
+    return responseText;
+  }
+
+  // Index local chargé à la demande ; un index construit après le démarrage est pris en compte
+  private getLocalIndex(): LocalDocsIndex {
+    if (!this.localIndex) {
+      this.localIndex = LocalDocsIndex.load(this.config.local_index.file);
+    }
+    return this.localIndex;
+  }
+
+  // Réponse d'un fournisseur (ou de l'index local), sources post-traitées de la même façon pour tous les outils
+  private async withLocalFallback(
+    project: DocsProject,
+    searchText: string,
+    sections: string[] | undefined,
+    options: DocsQueryOptions,
+    call: (provider: DocsProvider) => Promise<DocsAnswer>
+  ): Promise<DocsAnswer> {
+    const answer = await this.answerOrFallback(project, searchText, sections, options, call);
+    return this.sourceProcessor.processAnswer(answer, searchText);
+  }
+
+  // Si tous les fournisseurs échouent, réponse de secours avec les extraits bruts de l'index local
+  private async answerOrFallback(
+    project: DocsProject,
+    searchText: string,
+    sections: string[] | undefined,
+    options: DocsQueryOptions,
+    call: (provider: DocsProvider) => Promise<DocsAnswer>
+  ): Promise<DocsAnswer> {
+    try {
+      const answer = await call(project.provider);
+      this.trackAnswer(project, answer, options.user);
+      return project.kapa ? { ...answer, project: project.name } : answer;
+    } catch (error) {
+      if (options.signal?.aborted || error instanceof RedactionError || !this.config.local_index.fallback) {
+        throw error;
+      }
+
+      let results: LocalSearchResult[];
+      try {
+        results = this.getLocalIndex().search(searchText, 5, getSectionUrlPrefixes(sections));
+      } catch {
+        throw error;
+      }
+
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warn('Answer providers unavailable, using local docs index', { error: reason });
+
+      return {
+        answer: results.length > 0
+          ? results.map((result, index) => `[${index + 1}] ${result.title}\n\n${result.excerpt}`).join('\n\n')
+          : 'No matching section found in the local documentation index.',
+        sources: results.map(result => ({ title: result.title, url: result.url, snippet: result.excerpt })),
+        confidence: 0,
+        is_uncertain: true,
+        fallback_reason: reason,
+      };
+    }
+  }
+
+  private async handleSearchLocal(args: ToolArguments<'search_strapi_docs_local'>) {
+    const index = this.getLocalIndex();
+    const limit = Math.min(Math.max(Math.floor(args.limit || 5), 1), 20);
+    const results = index.search(args.query, limit, getSectionUrlPrefixes(args.sections));
+    const format = args.format || 'markdown';
+
+    const structured = {
+      query: args.query,
+      results: results.map(result => ({ ...result, score: Math.round(result.score * 100) / 100 })),
+      index_built_at: index.builtAt,
+      index_sections: index.size,
+    };
+
+    let responseText: string;
+    if (format === 'json') {
+      responseText = JSON.stringify(structured, null, 2);
+    } else if (results.length === 0) {
+      responseText = `No section of the local Strapi docs index matches "${args.query}".`;
+    } else {
+      const markdown = format === 'markdown';
+      responseText = markdown
+        ? `**🔎 Local docs search: ${args.query}**\n\n`
+        : `Local docs search: ${args.query}\n\n`;
+      responseText += structured.results.map((result, index) => markdown
+        ? `${index + 1}. [${result.title}](${result.url}) (score ${result.score})\n${result.excerpt.split('\n').map(line => `> ${line}`).join('\n')}`
+        : `${index + 1}. ${result.title} - ${result.url} (score ${result.score})\n${result.excerpt}`
+      ).join('\n\n');
+      responseText += markdown
+        ? `\n\n*Local index built at ${index.builtAt} (${index.size} sections)*`
+        : `\n\nLocal index built at ${index.builtAt} (${index.size} sections)`;
     }
 
     return {
@@ -432,75 +1410,679 @@ class StrapiKapaMCPServer {
           text: responseText,
         },
       ],
+      structuredContent: structured,
     };
   }
 
-  private async handleGetBestPractices(args: { topic: string; project_type?: string }) {
-    const query = `What are the best practices for ${args.topic} in Strapi${
-      args.project_type ? ` for ${args.project_type} projects` : ''
-    }? Please provide detailed recommendations, examples, and common pitfalls to avoid.`;
+  private withQueryContext(context: string | undefined, version?: ResolvedStrapiVersion, sections?: string[]): string | undefined {
+    const parts = [
+      context,
+      version && `Strapi version ${version.version} (v${version.major})`,
+      sections?.length && `Documentation sections: ${validateSections(sections).map(section => section.title).join(', ')}`,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join('; ') : undefined;
+  }
 
-    const response = await this.kapaClient.searchDocumentation(query, 'best practices');
-    
-    let responseText = `**🎯 Best Practices for ${args.topic}**\n\n${response.answer}`;
+  // Sources Kapa du projet : celles des sections, plus précises, l'emportent sur celles de la version
+  private getSourceParams(project: DocsProject, version?: ResolvedStrapiVersion, sections?: string[]): Omit<SearchParams, 'thread_id'> {
+    const sourceIds = project.kapa?.source_ids || {};
+    const sectionIds = [...new Set((sections || []).flatMap(name => sourceIds[name] || []))];
+
+    return {
+      source_ids_include: sectionIds.length > 0 ? sectionIds : version ? sourceIds[`v${version.major}`] : undefined,
+      ...(sections?.length && { sections }),
+    };
+  }
+
+  private formatDocsAnswer(response: DocsAnswer, format?: OutputFormat, version?: ResolvedStrapiVersion) {
+    return this.renderAnswer(response, format, {
+      version,
+      uncertaintyNote: 'Note: The AI is uncertain about this answer. Please verify the information.',
+      sources: response.sources,
+      sourcesHeading: { icon: '📚', text: 'Sources' },
+    });
+  }
+
+  private async handleGetBestPractices(
+    args: ToolArguments<'get_strapi_best_practices'>,
+    options: DocsQueryOptions = {}
+  ) {
+    const project = this.getProject(args.project);
+    const version = await resolveStrapiVersion(args);
+    const query = this.prompts.render('strapi-best-practices', {
+      topic: args.topic,
+      project_type: args.project_type,
+    });
+
+    const response = await this.withLocalFallback(
+      project,
+      `${args.topic} ${args.project_type || ''}`,
+      args.sections,
+      options,
+      (provider) => provider.query(
+        query,
+        this.withQueryContext('best practices', version, args.sections),
+        this.getSourceParams(project, version, args.sections),
+        options
+      )
+    );
     
-    if (response.is_uncertain) {
-      responseText += '\n\n⚠️ *Note: Please verify these recommendations with the official Strapi documentation.*';
-    }
+    return this.renderAnswer(response, args.format, {
+      heading: { icon: '🎯', text: `Best Practices for ${args.topic}` },
+      version,
+      uncertaintyNote: 'Note: Please verify these recommendations with the official Strapi documentation.',
+      sources: response.sources,
+      sourcesHeading: { icon: '📖', text: 'References' },
+    });
+  }
+
+  private async handleTroubleshootIssue(args: ToolArguments<'troubleshoot_strapi_issue'>, options: DocsQueryOptions = {}) {
+    const project = this.getProject(args.project);
+    const version = await resolveStrapiVersion(args);
+    const facts = await collectProjectFacts({ projectPath: args.project_path, logFile: args.log_file, version });
+    const factsText = formatProjectFacts(facts);
+    const context = this.withQueryContext('troubleshooting and problem solving', undefined, args.sections);
+    const query = this.prompts.render('strapi-troubleshoot', {
+      issue_description: args.issue_description,
+      error_message: args.error_message,
+      strapi_version: version?.version,
+    });
+
+    const response = await this.withLocalFallback(
+      project,
+      `${args.issue_description} ${args.error_message || facts.last_error?.trace.split('\n')[0] || ''}`,
+      args.sections,
+      options,
+      (provider) => provider.query(
+        query, 
+        factsText ? `${context}\n\n${factsText}` : context,
+        this.getSourceParams(project, version, args.sections),
+        options
+      )
+    );
     
-    if (response.sources.length > 0) {
-      const validSources = response.sources.filter(s => s.url.startsWith('http'));
-      if (validSources.length > 0) {
-        responseText += `\n\n**📖 References:**\n${validSources.map((source, index) => 
-          `${index + 1}. [${source.title}](${source.url})`
-        ).join('\n')}`;
+    return this.renderAnswer(response, args.format, {
+      heading: { icon: '🔧', text: `Troubleshooting: ${args.issue_description}` },
+      version,
+      uncertaintyNote: 'If this solution doesn\'t work, consider checking the Strapi community forum or GitHub issues.',
+      sources: response.sources,
+      sourcesHeading: { icon: '🆘', text: 'Helpful Resources' },
+      // Les faits montrés sont ceux envoyés, une fois masqués
+      ...(factsText && {
+        projectFacts: {
+          data: facts.last_error
+            ? { ...facts, last_error: { ...facts.last_error, trace: this.redactor.apply(facts.last_error.trace) } }
+            : facts,
+          text: this.redactor.apply(factsText),
+        },
+      }),
+    });
+  }
+
+  private async handleGetCodeExample(
+    args: ToolArguments<'get_strapi_code_example'>,
+    options: DocsQueryOptions = {}
+  ) {
+    const project = this.getProject(args.project);
+    const kind = getCodeExampleKind(args.kind);
+    const version = await resolveStrapiVersion(args);
+    const language = args.language || await detectProjectLanguage(args.project_path) || 'js';
+    const major = version?.major || DEFAULT_CODE_EXAMPLE_MAJOR;
+    const filePath = getCodeExamplePath(kind, major, language, args.name);
+    const query = this.prompts.render('strapi-code-example', {
+      kind: kind.title.toLowerCase(),
+      description: args.description,
+      language: language,
+      file_path: filePath,
+      strapi_version: version?.version,
+    });
+
+    const response = await this.withLocalFallback(
+      project,
+      `${kind.title} ${args.description}`,
+      args.sections,
+      options,
+      (provider) => provider.query(
+        query,
+        this.withQueryContext('code example', version, args.sections),
+        this.getSourceParams(project, version, args.sections),
+        options
+      )
+    );
+
+    const sources = response.sources;
+    const examples = toCodeExamples(extractCodeBlocks(response.answer), kind, major, args.name, sources[0]?.url);
+    const format = args.format || 'markdown';
+    const prose = stripCodeBlocks(response.answer);
+
+    // Le texte de la réponse sans le code, puis un élément de contenu par bloc de code
+    const rendered = this.renderAnswer(
+      { ...response, answer: prose || (examples.length > 0 ? '' : response.answer) },
+      format,
+      {
+        heading: { icon: '🧩', text: `${kind.title} example: ${args.description}` },
+        version,
+        uncertaintyNote: 'Note: The AI is uncertain about this code. Please check it against the official Strapi documentation.',
+        sources,
+        sourcesHeading: { icon: '📚', text: 'Sources' },
       }
+    );
+    const structured = {
+      ...rendered.structuredContent,
+      kind: kind.name,
+      language,
+      file_path: filePath,
+      examples,
+    };
+
+    if (format === 'json') {
+      return {
+        content: [{ type: 'text', text: JSON.stringify(structured, null, 2) }],
+        structuredContent: structured,
+      };
     }
 
+    const note = examples.length === 0 ? 'No code block found in the answer.' : undefined;
     return {
       content: [
         {
           type: 'text',
-          text: responseText,
+          text: note ? `${rendered.content[0].text}\n\n${format === 'markdown' ? `⚠️ *${note}*` : note}` : rendered.content[0].text,
         },
+        ...examples.map(example => ({
+          type: 'text',
+          text: this.formatCodeExample(example, format),
+        })),
       ],
+      structuredContent: structured,
     };
   }
 
-  private async handleTroubleshootIssue(args: { 
-    issue_description: string; 
-    error_message?: string; 
-    strapi_version?: string; 
-  }) {
-    let query = `I'm experiencing this issue with Strapi: ${args.issue_description}`;
-    
-    if (args.error_message) {
-      query += `\n\nSpecific error message: "${args.error_message}"`;
+  private async handlePlanMigration(
+    args: ToolArguments<'plan_strapi_migration'>,
+    options: DocsQueryOptions = {},
+    consumeQuota: (cost: number) => void = () => {}
+  ) {
+    const project = this.getProject(args.project);
+    const scan = await scanProjectForMigration(args.project_path);
+    // Version détectée seulement pour le rapport : un front-end seul n'a pas de @strapi/strapi
+    const version = await resolveStrapiVersion({ project_path: args.project_path }).catch(() => undefined);
+    const target: ResolvedStrapiVersion = { version: '5', major: 5, source: 'argument' };
+
+    // Une question de documentation par catégorie trouvée, décomptée du quota ; un échec n'empêche pas le rapport
+    const found = MIGRATION_CATEGORIES
+      .map(category => ({ category, findings: scan.findings.filter(finding => finding.category === category.id) }))
+      .filter(({ findings }) => findings.length > 0);
+    consumeQuota(found.length);
+    const categories = await Promise.all(found
+      .map(async ({ category, findings }) => {
+        const summary = { id: category.id, title: category.title, description: category.description, count: findings.length };
+        try {
+          const response = await this.withLocalFallback(
+            project,
+            category.question,
+            ['migration'],
+            { signal: options.signal, user: options.user },
+            (provider) => provider.query(
+              category.question,
+              this.withQueryContext('Strapi v4 to v5 migration', target, ['migration']),
+              this.getSourceParams(project, target, ['migration']),
+              { signal: options.signal, user: options.user }
+            )
+          );
+          return {
+            ...summary,
+            guidance: response.answer,
+            sources: response.sources,
+            is_uncertain: response.is_uncertain,
+            ...(response.question_answer_id && { question_answer_id: response.question_answer_id }),
+            ...(response.provider && { provider: response.provider }),
+            ...(response.fallback_reason && { fallback_reason: response.fallback_reason }),
+          };
+        } catch (error) {
+          if (options.signal?.aborted) throw error;
+          return { ...summary, sources: [], error: errorMessage(error) };
+        }
+      }));
+
+    const structured = {
+      project_path: scan.root,
+      ...(version && { strapi_version: version }),
+      files_scanned: scan.files_scanned,
+      findings: scan.findings.length,
+      truncated: scan.truncated,
+      categories,
+      files: groupFindingsByFile(scan.findings),
+    };
+    const format = args.format || 'markdown';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: format === 'json' ? JSON.stringify(structured, null, 2) : this.formatMigrationPlan(structured, scan.findings, format),
+        },
+      ],
+      structuredContent: structured,
+    };
+  }
+
+  private formatMigrationPlan(plan: any, findings: MigrationFinding[], format: OutputFormat): string {
+    const markdown = format === 'markdown';
+    const code = (text: string) => markdown ? (text.includes('`') ? `\`\` ${text} \`\`` : `\`${text}\``) : text;
+    const note = (text: string) => markdown ? `⚠️ *${text}*` : text;
+
+    let responseText = markdown ? `**🧭 Strapi v4 → v5 Migration Plan**\n\n` : `Strapi v4 -> v5 Migration Plan\n\n`;
+    responseText += markdown ? `📁 *Project: ${plan.project_path}*\n` : `Project: ${plan.project_path}\n`;
+    if (plan.strapi_version) {
+      const versionText = `Strapi v${plan.strapi_version.major} (${plan.strapi_version.version}, from ${plan.strapi_version.source})`;
+      responseText += markdown ? `🏷️ *${versionText}*\n` : `${versionText}\n`;
     }
-    
-    if (args.strapi_version) {
-      query += `\n\nI'm using Strapi version: ${args.strapi_version}`;
+
+    if (plan.findings === 0) {
+      return `${responseText}\nNo Strapi v4-only pattern found in ${plan.files_scanned} scanned files.`;
+    }
+    responseText += `\nScanned ${plan.files_scanned} files: ${plan.findings} findings in ${plan.categories.length} categories.`;
+    if (plan.strapi_version && plan.strapi_version.major >= 5) {
+      responseText += `\n\n${note('This project already depends on Strapi v5: the findings below may be leftovers from v4.')}`;
+    }
+    if (plan.truncated) {
+      responseText += `\n\n${note('The scan stopped early (too many files or findings): the checklist is partial.')}`;
     }
-    
-    query += '\n\nHow can I resolve this issue? Please provide step-by-step troubleshooting instructions and possible causes.';
 
-    const response = await this.kapaClient.searchDocumentation(
-      query, 
-      'troubleshooting and problem solving'
-    );
-    
-    let responseText = `**🔧 Troubleshooting: ${args.issue_description}**\n\n${response.answer}`;
-    
-    if (response.is_uncertain) {
-      responseText += '\n\n⚠️ *If this solution doesn\'t work, consider checking the Strapi community forum or GitHub issues.*';
+    plan.categories.forEach((category: any, index: number) => {
+      responseText += markdown
+        ? `\n\n### ${index + 1}. ${category.title} (${category.count})\n\n${category.description}\n\n`
+        : `\n\n${index + 1}. ${category.title} (${category.count})\n\n${category.description}\n\n`;
+
+      // Liste à cocher par fichier, avec file:line
+      const files = groupFindingsByFile(findings.filter(finding => finding.category === category.id));
+      const shown = files.slice(0, MAX_MIGRATION_CHECKLIST_FILES);
+      responseText += shown.map(group => [
+        `- [ ] ${code(group.file)}`,
+        ...group.findings.map(finding => `  - [ ] ${code(`${finding.file}:${finding.line}`)} ${code(finding.text)}`),
+      ].join('\n')).join('\n');
+      if (files.length > shown.length) {
+        responseText += `\n- … and ${files.length - shown.length} more files`;
+      }
+
+      if (category.error) {
+        responseText += `\n\n${note(`Could not get the v5 guidance: ${category.error}`)}`;
+        return;
+      }
+      responseText += markdown ? `\n\n**📚 v5 guidance:**\n\n${category.guidance}` : `\n\nv5 guidance:\n\n${category.guidance}`;
+      if (category.is_uncertain) {
+        responseText += `\n\n${note('Note: The AI is uncertain about this guidance. Please verify it in the migration guide.')}`;
+      }
+      if (category.sources.length > 0) {
+        responseText += markdown ? `\n\n**Docs:**\n` : `\n\nDocs:\n`;
+        responseText += this.formatSources(category.sources, format, '-');
+      }
+    });
+
+    return responseText;
+  }
+
+  private async handleFindPlugin(
+    args: ToolArguments<'find_strapi_plugin'>,
+    options: DocsQueryOptions = {}
+  ) {
+    const project = this.getProject(args.project);
+    const version = await resolveStrapiVersion(args);
+    const found = await this.pluginCatalog.search(args.query, args.limit || 5);
+
+    // Plugins compatibles avec la version du projet en premier
+    const rank: Record<PluginCompatibility, number> = { compatible: 0, unknown: 1, incompatible: 2 };
+    const plugins = found
+      .map(plugin => ({ ...plugin, compatibility: checkPluginCompatibility(plugin, version?.major) }))
+      .sort((a, b) => rank[a.compatibility] - rank[b.compatibility]);
+
+    const best = plugins.find(plugin => plugin.compatibility !== 'incompatible');
+    const structured = {
+      query: args.query,
+      catalog: this.pluginCatalog.name,
+      ...(version && { strapi_version: version }),
+      plugins,
+      ...(best && await this.askPluginSetup(project, best, args.query, version, options)),
+    };
+
+    return this.renderPlugins(structured, plugins, version, args.format || 'markdown', {
+      icon: '🔌',
+      text: `Strapi plugins for "${args.query}"`,
+    });
+  }
+
+  private async handleGetPluginInfo(
+    args: ToolArguments<'get_strapi_plugin_info'>,
+    options: DocsQueryOptions = {}
+  ) {
+    const project = this.getProject(args.project);
+    const version = await resolveStrapiVersion(args);
+    const plugin = await this.pluginCatalog.get(args.name);
+    if (!plugin) {
+      throw new Error(`Plugin not found in the ${this.pluginCatalog.name} catalog: ${args.name}`);
     }
-    
-    if (response.sources.length > 0) {
-      const validSources = response.sources.filter(s => s.url.startsWith('http'));
-      if (validSources.length > 0) {
-        responseText += `\n\n**🆘 Helpful Resources:**\n${validSources.map((source, index) => 
-          `${index + 1}. [${source.title}](${source.url})`
-        ).join('\n')}`;
+
+    const info = { ...plugin, compatibility: checkPluginCompatibility(plugin, version?.major) };
+    const structured = {
+      catalog: this.pluginCatalog.name,
+      ...(version && { strapi_version: version }),
+      plugin: info,
+      ...await this.askPluginSetup(project, info, undefined, version, options),
+    };
+
+    return this.renderPlugins(structured, [info], version, args.format || 'markdown', {
+      icon: '🔌',
+      text: `Strapi plugin: ${plugin.name}`,
+    });
+  }
+
+  // Réponse de la documentation sur l'installation du plugin ; un échec n'empêche pas de répondre
+  private async askPluginSetup(
+    project: DocsProject,
+    plugin: PluginInfo,
+    useCase: string | undefined,
+    version: ResolvedStrapiVersion | undefined,
+    options: DocsQueryOptions
+  ) {
+    const query = this.prompts.render('strapi-plugin-setup', {
+      plugin_name: plugin.name,
+      use_case: useCase,
+      strapi_version: version?.version,
+    });
+
+    try {
+      const response = await this.withLocalFallback(
+        project,
+        `${plugin.name} ${plugin.description}`,
+        ['plugins'],
+        options,
+        (provider) => provider.query(
+          query,
+          this.withQueryContext('plugin setup', version, ['plugins']),
+          this.getSourceParams(project, version, ['plugins']),
+          options
+        )
+      );
+      return {
+        setup: {
+          plugin: plugin.name,
+          answer: response.answer,
+          sources: response.sources,
+          is_uncertain: response.is_uncertain,
+          ...(response.question_answer_id && { question_answer_id: response.question_answer_id }),
+          ...(response.provider && { provider: response.provider }),
+          ...(response.fallback_reason && { fallback_reason: response.fallback_reason }),
+        },
+      };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      return { setup_error: errorMessage(error) };
+    }
+  }
+
+  private renderPlugins(
+    structured: any,
+    plugins: Array<PluginInfo & { compatibility: PluginCompatibility }>,
+    version: ResolvedStrapiVersion | undefined,
+    format: OutputFormat,
+    heading: { icon: string; text: string }
+  ) {
+    if (format === 'json') {
+      return {
+        content: [{ type: 'text', text: JSON.stringify(structured, null, 2) }],
+        structuredContent: structured,
+      };
+    }
+
+    const markdown = format === 'markdown';
+    const majors = (versions: number[]) => versions.map(major => `v${major}`).join(', ');
+    let responseText = markdown ? `**${heading.icon} ${heading.text}**\n\n` : `${heading.text}\n\n`;
+
+    if (version) {
+      const versionText = `Strapi v${version.major} (${version.version}, from ${version.source})`;
+      responseText += markdown ? `🏷️ *${versionText}*\n\n` : `${versionText}\n\n`;
+    }
+
+    if (plugins.length === 0) {
+      responseText += `No plugin found in the ${structured.catalog} catalog.`;
+    }
+    responseText += plugins.map((plugin, index) => {
+      const compatibility = {
+        compatible: `${markdown ? '✅ ' : ''}Supports Strapi v${version?.major}`,
+        incompatible: `${markdown ? '❌ ' : ''}Does not support Strapi v${version?.major}`,
+        unknown: `${markdown ? '❔ ' : ''}Strapi version support unknown`,
+      }[plugin.compatibility];
+      const details = [
+        plugin.strapi_versions.length > 0 && `Strapi versions: ${majors(plugin.strapi_versions)}${plugin.strapi_range ? ` (${plugin.strapi_range})` : ''}`,
+        plugin.last_published && `Last published: ${plugin.last_published.slice(0, 10)}`,
+        plugin.docs_url !== plugin.npm_url && `npm: ${plugin.npm_url}`,
+      ].filter(Boolean).join(' · ');
+      const title = markdown ? `**[${plugin.name}](${plugin.docs_url})** ${plugin.version}` : `${plugin.name} ${plugin.version} - ${plugin.docs_url}`;
+
+      return [
+        `${index + 1}. ${title} — ${compatibility}`,
+        plugin.description && `   ${plugin.description}`,
+        details && `   ${details}`,
+      ].filter(Boolean).join('\n');
+    }).join('\n\n');
+
+    if (structured.setup) {
+      const setup = structured.setup;
+      responseText += markdown
+        ? `\n\n**🛠️ Setup: ${setup.plugin}**\n\n${setup.answer}`
+        : `\n\nSetup: ${setup.plugin}\n\n${setup.answer}`;
+      if (setup.is_uncertain && !setup.fallback_reason) {
+        const note = 'Note: The AI is uncertain about these setup steps. Please check the plugin documentation.';
+        responseText += markdown ? `\n\n⚠️ *${note}*` : `\n\n${note}`;
+      }
+      if (setup.sources.length > 0) {
+        responseText += markdown ? `\n\n**📚 Sources:**\n` : `\n\nSources:\n`;
+        responseText += this.formatSources(setup.sources, format);
+      }
+      if (setup.question_answer_id) {
+        responseText += markdown
+          ? `\n\n*Question answer ID: ${setup.question_answer_id}* (use rate_strapi_answer to give feedback)`
+          : `\n\nQuestion answer ID: ${setup.question_answer_id} (use rate_strapi_answer to give feedback)`;
+      }
+    } else if (structured.setup_error) {
+      const note = `Could not get the setup steps from the documentation: ${structured.setup_error}`;
+      responseText += markdown ? `\n\n⚠️ *${note}*` : `\n\n${note}`;
+    }
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+      structuredContent: structured,
+    };
+  }
+
+  private formatCodeExample(example: CodeExample, format: OutputFormat): string {
+    const details = [
+      example.file_path && `File: ${example.file_path}`,
+      `Language: ${example.language}`,
+      example.source_url && `Source: ${example.source_url}`,
+    ].filter(Boolean);
+
+    if (format === 'plain') {
+      return `${details.join('\n')}\n\n${example.code}`;
+    }
+
+    const header = [
+      example.file_path && `**📄 \`${example.file_path}\`**`,
+      example.source_url && `*Source: ${example.source_url}*`,
+    ].filter(Boolean).join('\n');
+    return `${header ? `${header}\n\n` : ''}\`\`\`${example.language}\n${example.code}\n\`\`\``;
+  }
+
+  private toStructuredAnswer(response: DocsAnswer, sources: AnswerSource[], version?: ResolvedStrapiVersion) {
+    return {
+      answer: response.answer,
+      sources: sources.map(source => this.toStructuredSource(source)),
+      is_uncertain: !!response.is_uncertain,
+      confidence: response.confidence,
+      ...(response.thread_id && { thread_id: response.thread_id }),
+      ...(response.question_answer_id && { question_answer_id: response.question_answer_id }),
+      ...(response.project && { project: response.project }),
+      ...(response.cached && { cached: true, cached_at: response.cached_at }),
+      ...(response.fallback_reason && { fallback: true, fallback_reason: response.fallback_reason }),
+      ...(response.redactions && { redactions: response.redactions }),
+      ...(response.provider && { provider: response.provider }),
+      ...(response.provider_fallback_reason && { provider_fallback_reason: response.provider_fallback_reason }),
+      ...(version && { strapi_version: version }),
+    };
+  }
+
+  private toStructuredSource({ title, url, snippet, docs_version, version_mismatch, link_status, moved_from }: AnswerSource) {
+    return {
+      title,
+      url,
+      snippet: snippet || '',
+      ...(docs_version !== undefined && { docs_version }),
+      ...(version_mismatch && { version_mismatch }),
+      ...(link_status && { link_status }),
+      ...(moved_from && { moved_from }),
+    };
+  }
+
+  // Liste des sources commune à tous les rendus : lien, avertissements, puis l'extrait cité en dessous
+  private formatSources(sources: AnswerSource[], format: OutputFormat, bullet?: string): string {
+    const markdown = format === 'markdown';
+
+    return sources.map((source, index) => {
+      const marker = bullet || `${index + 1}.`;
+      const notes = [
+        source.version_mismatch && `v${source.docs_version} docs`,
+        source.moved_from && `moved from ${source.moved_from}`,
+      ].filter(Boolean).join(', ');
+      const excerpt = toSnippetExcerpt(source.snippet);
+      const indent = ' '.repeat(marker.length + 1);
+
+      let line = markdown
+        ? `${marker} [${source.title}](${source.url})${notes && ` ⚠️ (${notes})`}`
+        : `${marker} ${source.title} - ${source.url}${notes && ` (${notes})`}`;
+      if (excerpt) {
+        line += markdown ? `\n${indent}> ${excerpt}` : `\n${indent}"${excerpt}"`;
+      }
+      return line;
+    }).join('\n');
+  }
+
+  // Marque (ou retire) les sources qui viennent de la documentation d'une autre version majeure
+  private applyVersionToSources(sources: AnswerSource[], version?: ResolvedStrapiVersion): AnswerSource[] {
+    if (!version) {
+      return sources;
+    }
+
+    const tagged = sources.map(source => {
+      const docsVersion = getDocsMajorVersion(source.url);
+      return {
+        ...source,
+        ...(docsVersion !== undefined && {
+          docs_version: docsVersion,
+          version_mismatch: docsVersion !== version.major,
+        }),
+      };
+    });
+
+    return this.config.version_mismatch === 'filter'
+      ? tagged.filter(source => !source.version_mismatch)
+      : tagged;
+  }
+
+  // Les sources deviennent lisibles comme ressources MCP
+  private publishSources(sources: AnswerSource[]): void {
+    if (this.recentSources.add(sources)) {
+      this.servers.forEach(server => {
+        server.sendResourceListChanged().catch((error: any) => {
+          logger.error('[MCP Error] Failed to send resource list change', { error: error.message || String(error) });
+        });
+      });
+    }
+  }
+
+  // Rendu commun des réponses : texte selon le format demandé + structuredContent
+  private renderAnswer(response: DocsAnswer, format: OutputFormat = 'markdown', options: AnswerRenderOptions) {
+    const sources = this.applyVersionToSources(options.sources, options.version);
+    const structured = {
+      ...this.toStructuredAnswer(response, sources, options.version),
+      ...(options.projectFacts && { project_facts: options.projectFacts.data }),
+    };
+
+    this.publishSources(sources);
+    const markdown = format === 'markdown';
+    let responseText = '';
+
+    if (format === 'json') {
+      responseText = JSON.stringify(structured, null, 2);
+    } else {
+      if (options.heading) {
+        responseText += markdown
+          ? `**${options.heading.icon} ${options.heading.text}**\n\n`
+          : `${options.heading.text}\n\n`;
+      }
+      
+      // Version de Strapi utilisée pour la réponse
+      if (options.version) {
+        const versionText = `Strapi v${options.version.major} (${options.version.version}, from ${options.version.source})`;
+        responseText += markdown ? `🏷️ *${versionText}*\n\n` : `${versionText}\n\n`;
+      }
+      
+      // Projet Kapa interrogé, utile seulement quand il y en a plusieurs
+      if (response.project && this.projects.size > 1) {
+        responseText += markdown ? `📁 *Kapa project: ${response.project}*\n\n` : `Kapa project: ${response.project}\n\n`;
+      }
+      
+      // Réponse de secours : ce ne sont pas des réponses d'un fournisseur
+      if (response.fallback_reason) {
+        const fallbackText = `Offline fallback: no answer provider is available (${response.fallback_reason}). Below are raw excerpts from the local Strapi docs index, not an AI-generated answer.`;
+        responseText += markdown ? `📴 *${fallbackText}*\n\n` : `${fallbackText}\n\n`;
+      } else if (response.provider_fallback_reason) {
+        const providerText = `Answered by the ${response.provider} provider (${response.provider_fallback_reason})`;
+        responseText += markdown ? `↪️ *${providerText}*\n\n` : `${providerText}\n\n`;
+      }
+      responseText += response.answer;
+      
+      // Ajouter des informations sur l'incertitude
+      if (response.is_uncertain && !response.fallback_reason) {
+        responseText += markdown
+          ? `\n\n⚠️ *${options.uncertaintyNote}*`
+          : `\n\n${options.uncertaintyNote}`;
+      }
+      
+      responseText += this.formatCacheNote(response, format);
+      
+      // Données sensibles masquées avant l'envoi
+      if (response.redactions) {
+        const redactionText = `Sensitive data redacted before sending: ${formatRedactionSummary(response.redactions)}`;
+        responseText += markdown ? `\n\n🔒 *${redactionText}*` : `\n\n${redactionText}`;
+      }
+      
+      // Ajouter les sources si disponibles
+      if (sources.length > 0) {
+        responseText += markdown
+          ? `\n\n**${options.sourcesHeading.icon} ${options.sourcesHeading.text}:**\n`
+          : `\n\n${options.sourcesHeading.text}:\n`;
+        responseText += this.formatSources(sources, format);
+      }
+      
+      if (options.projectFacts) {
+        responseText += markdown
+          ? `\n\n**🧾 Project facts sent with the question:**\n\`\`\`\n${options.projectFacts.text}\n\`\`\``
+          : `\n\nProject facts sent with the question:\n${options.projectFacts.text}`;
+      }
+      
+      // Ajouter l'ID du thread pour un éventuel suivi
+      if (response.thread_id) {
+        responseText += markdown
+          ? `\n\n*Thread ID: ${response.thread_id}* (use continue_strapi_thread to ask a follow-up)`
+          : `\n\nThread ID: ${response.thread_id} (use continue_strapi_thread to ask a follow-up)`;
+      }
+      
+      // Ajouter l'ID de la réponse pour pouvoir la noter
+      if (response.question_answer_id) {
+        responseText += markdown
+          ? `\n\n*Question answer ID: ${response.question_answer_id}* (use rate_strapi_answer to give feedback)`
+          : `\n\nQuestion answer ID: ${response.question_answer_id} (use rate_strapi_answer to give feedback)`;
       }
     }
 
@@ -511,59 +2093,275 @@ class StrapiKapaMCPServer {
           text: responseText,
         },
       ],
+      structuredContent: structured,
     };
   }
 
-  private setupErrorHandling(): void {
-    this.server.onerror = (error: any) => {
-      console.error(`[MCP Error] ${error.message || error}`);
+  private async handleListDocSections(args: ToolArguments<'list_doc_sections'>) {
+    const sourceIds = this.getProject(args.project).kapa?.source_ids || {};
+    const sections = DOC_SECTIONS.map(section => ({
+      name: section.name,
+      title: section.title,
+      description: section.description,
+      source_ids: sourceIds[section.name] || [],
+      url_prefixes: section.urlPrefixes,
+    }));
+
+    let responseText = `**📂 Strapi Documentation Sections**\n\n`;
+    responseText += sections.map(section => {
+      const filter = section.source_ids.length > 0
+        ? `Kapa sources: ${section.source_ids.join(', ')}`
+        : `no Kapa source configured (source_ids.${section.name} or KAPA_SOURCE_IDS_${section.name.toUpperCase().replace(/-/g, '_')}), used as context only`;
+      return `- \`${section.name}\` **${section.title}**: ${section.description}\n  *${filter}*`;
+    }).join('\n');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: { sections },
+    };
+  }
+
+  private async handleRateAnswer(
+    args: ToolArguments<'rate_strapi_answer'>,
+    options: DocsQueryOptions = {}
+  ) {
+    await this.getProject(args.project, args.question_answer_id, options.user).provider.feedback(
+      args.question_answer_id,
+      args.reaction,
+      args.comment,
+      options.user
+    );
+
+    const icon = args.reaction === 'upvote' ? '👍' : '👎';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${icon} Feedback sent for answer ${args.question_answer_id}${args.comment ? `\n\nComment: ${args.comment}` : ''}`,
+        },
+      ],
+      structuredContent: {
+        success: true,
+        question_answer_id: args.question_answer_id,
+        reaction: args.reaction,
+      },
+    };
+  }
+
+  private formatCacheNote(response: DocsAnswer, format: OutputFormat = 'markdown'): string {
+    if (!response.cached) {
+      return '';
+    }
+    const note = `Cached answer from ${response.cached_at}. It may be stale; use clear_cache to fetch a fresh one.`;
+    return format === 'markdown' ? `\n\n🗄️ *${note}*` : `\n\n${note}`;
+  }
+
+  private async handleCacheStats() {
+    if (!this.cache) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'ℹ️ The answer cache is disabled (KAPA_CACHE=off).',
+          },
+        ],
+        structuredContent: { enabled: false },
+      };
+    }
+
+    const stats = await this.cache.stats();
+    let responseText = `**🗄️ Kapa Answer Cache**\n\n`;
+    responseText += `- Store: ${stats.store}\n`;
+    responseText += `- Entries: ${stats.entries}\n`;
+    responseText += `- Hits: ${stats.hits}\n`;
+    responseText += `- Misses: ${stats.misses}\n`;
+    responseText += `- Hit rate: ${(stats.hitRate * 100).toFixed(1)}%\n`;
+    responseText += `- TTL: ${stats.ttlSeconds}s`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+      structuredContent: {
+        enabled: true,
+        store: stats.store,
+        entries: stats.entries,
+        hits: stats.hits,
+        misses: stats.misses,
+        hit_rate: stats.hitRate,
+        ttl_seconds: stats.ttlSeconds,
+      },
+    };
+  }
+
+  private async handleClearCache() {
+    if (!this.cache) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'ℹ️ The answer cache is disabled (KAPA_CACHE=off).',
+          },
+        ],
+        structuredContent: { enabled: false, cleared: 0 },
+      };
+    }
+
+    const cleared = await this.cache.clear();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Cache cleared: ${cleared} entr${cleared === 1 ? 'y' : 'ies'} removed.`,
+        },
+      ],
+      structuredContent: { enabled: true, cleared },
     };
+  }
+
+  private async handleUsageReport(args: ToolArguments<'usage_report'>) {
+    const window = args.window || '24h';
+    const report = this.metrics.report(parseWindow(window));
+    const format = args.format || 'markdown';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: format === 'json' ? JSON.stringify(report, null, 2) : this.formatUsageReport(report, window, format),
+        },
+      ],
+      structuredContent: report,
+    };
+  }
+
+  private formatUsageReport(report: UsageReport, window: string, format: OutputFormat): string {
+    const markdown = format === 'markdown';
+    const percent = (rate?: number) => rate === undefined ? 'n/a' : `${(rate * 100).toFixed(1)}%`;
+
+    let responseText = markdown ? `**📊 Usage Report (last ${window})**\n\n` : `Usage Report (last ${window})\n\n`;
+    responseText += `- Calls: ${report.calls} (${report.errors} errors)\n`;
+    responseText += `- Answers: ${report.answers}\n`;
+    responseText += `- Uncertain answers: ${percent(report.uncertain_rate)}\n`;
+    responseText += `- Cache hit rate: ${percent(report.cache_hit_rate)}\n`;
 
+    const providers = Object.entries(report.providers);
+    if (providers.length > 0) {
+      responseText += `- Providers: ${providers.map(([name, count]) => `${name} ×${count}`).join(', ')}\n`;
+    }
+    const kapaErrors = Object.entries(report.kapa_errors);
+    if (kapaErrors.length > 0) {
+      responseText += `- Kapa errors: ${kapaErrors.map(([code, count]) => `${code} ×${count}`).join(', ')}\n`;
+    }
+
+    if (report.tools.length > 0) {
+      responseText += markdown ? `\n**Per tool:**\n` : `\nPer tool:\n`;
+      responseText += report.tools.map(tool => {
+        const name = markdown ? `\`${tool.tool}\`` : tool.tool;
+        const answers = tool.answers > 0
+          ? `, uncertain ${percent(tool.uncertain_rate)}, cached ${percent(tool.cache_hit_rate)}`
+          : '';
+        return `- ${name}: ${tool.calls} calls, ${tool.errors} errors, avg ${tool.avg_ms}ms, p95 ${tool.p95_ms}ms${answers}`;
+      }).join('\n');
+    }
+
+    if (report.truncated) {
+      const note = 'Older calls were dropped from memory: this report only covers the most recent ones.';
+      responseText += markdown ? `\n\n⚠️ *${note}*` : `\n\n${note}`;
+    }
+    return responseText.trimEnd();
+  }
+
+  private setupErrorHandling(): void {
     process.on('SIGINT', async () => {
-      console.error('\n🛑 Shutting down MCP server...');
-      await this.server.close();
+      logger.info('🛑 Shutting down MCP server...');
+      this.httpServer?.close();
+      await Promise.all([...this.servers].map(server => server.close()));
       process.exit(0);
     });
 
     process.on('uncaughtException', (error) => {
-      console.error('Uncaught Exception:', error);
+      logger.error('Uncaught Exception', { error: error.stack || error.message });
       process.exit(1);
     });
 
-    process.on('unhandledRejection', (reason, promise) => {
-      console.error('Unhandled Rejection at:', promise, 'reason:', reason);
+    process.on('unhandledRejection', (reason) => {
+      logger.error('Unhandled Rejection', { error: reason instanceof Error ? reason.stack : String(reason) });
       process.exit(1);
     });
   }
 
+  // Connecte un client sur un transport déjà créé (stdio, ou en mémoire dans les tests)
+  async connect(transport: any): Promise<void> {
+    await this.createServer().connect(transport);
+  }
+
   async start(): Promise<void> {
+    const options = this.config.server;
+    this.setupErrorHandling();
+    this.performStartupTest();
+
     try {
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
-      console.error('🚀 Strapi Kapa MCP Server started successfully'); // Use stderr for MCP
+      if (options.transport === 'http') {
+        this.httpServer = await startHttpServer({
+          host: options.host,
+          port: options.port,
+          createServer: () => this.createServer(),
+          sessionIdleTimeoutMs: options.session_idle_timeout_seconds * 1000,
+          maxSessions: options.max_sessions,
+          getHealth: () => ({
+            name: options.name,
+            version: '1.0.0',
+          }),
+          getMetrics: () => this.metrics.toPrometheus(),
+        });
+        logger.info(`🚀 Strapi Kapa MCP Server listening on http://${options.host}:${options.port}/mcp`);
+      } else {
+        await this.connect(new StdioServerTransport());
+        logger.info('🚀 Strapi Kapa MCP Server started successfully'); // Use stderr for MCP
+      }
     } catch (error: any) {
-      console.error(`[MCP Server Error] ${error.message || error}`);
+      logger.error('[MCP Server Error]', { error: error.message || String(error) });
       process.exit(1);
     }
   }
 }
 
-// Validation des variables d'environnement au démarrage
-function validateEnvironment() {
-  const required = ['KAPA_API_KEY', 'KAPA_PROJECT_ID'];
-  const missing = required.filter(key => !process.env[key]);
-  
-  if (missing.length > 0) {
-    console.error(`❌ Missing required environment variables: ${missing.join(', ')}`);
-    console.error('Please check your .env file and ensure all required variables are set.');
+// Configuration au démarrage : --config, --transport stdio|http, --host, --port puis environnement et fichier
+function loadStartupConfig(): ServerConfig {
+  const { values } = parseArgs({
+    options: {
+      config: { type: 'string' },
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+    },
+  });
+
+  try {
+    return loadConfig(values as ConfigOverrides);
+  } catch (error: any) {
+    logger.error(`❌ ${error.message}`);
+    logger.error('Please check your .env file or config file (see .env.example and the Configuration section of the README).');
     process.exit(1);
   }
 }
 
-// Démarrage du serveur
-validateEnvironment();
-const server = new StrapiKapaMCPServer();
-server.start().catch((error) => {
-  console.error(`[Startup Error] ${error.message || error}`);
-  process.exit(1);
-});
\ No newline at end of file
+// Démarrage du serveur, sauf quand le module est importé (tests)
+if (require.main === module) {
+  const server = new StrapiKapaMCPServer(loadStartupConfig());
+  server.start().catch((error) => {
+    logger.error('[Startup Error]', { error: error.message || String(error) });
+    process.exit(1);
+  });
+}
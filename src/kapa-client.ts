@@ -1,69 +1,487 @@
 import axios, { AxiosInstance } from 'axios';
+import { ResponseCache } from './cache';
+import {
+  DocsAnswer,
+  DocsProvider,
+  DocsQueryOptions,
+  DocsUser,
+  FeedbackReaction,
+  ProviderHealth,
+  SearchParams,
+} from './docs-provider';
+import { logger } from './logger';
+import { MetricsRegistry } from './metrics';
+import { AbortError, ConcurrencyLimiter, TokenBucket, retryWithBackoff } from './rate-limiter';
 
-interface KapaResponse {
-  answer: string;
-  sources: Array<{
-    title: string;
-    url: string;
-    snippet: string;
-  }>;
-  confidence: number;
+// Séparateur des enregistrements JSON dans le flux Kapa
+const STREAM_RECORD_SEPARATOR = '\u241E';
+const STREAM_IDLE_TIMEOUT = 30000;
+// Identifiant envoyé à Kapa quand l'appelant n'est pas identifié
+const ANONYMOUS_CLIENT_ID = 'mcp-server-user';
+
+export interface KapaRateLimitOptions {
+  requestsPerMinute: number;
+  maxConcurrent: number;
+  maxRetries: number;
+}
+
+// Erreur Kapa avec le statut HTTP, pour décider des nouvelles tentatives
+export class KapaApiError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public retryAfterMs?: number,
+    public retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'KapaApiError';
+  }
 }
 
 interface KapaQueryRequest {
   query: string;
   context?: string;
-  max_sources?: number;
+  integration_id?: string;
+  source_ids_include?: string[];
+  thread_id?: string;
 }
 
-export class KapaClient {
+export class KapaClient implements DocsProvider {
+  readonly name = 'kapa';
   private client: AxiosInstance;
+  private projectId: string;
+  private streaming: boolean;
+  private cache?: ResponseCache<DocsAnswer>;
+  private rateLimiter: TokenBucket;
+  private concurrencyLimiter: ConcurrencyLimiter;
+  private maxRetries: number;
+  private metrics?: MetricsRegistry;
 
-  constructor(apiKey: string, projectId: string, baseURL: string = 'https://api.kapa.ai') {
-    // Configuration correcte pour l'API Kapa v2
-    const fullURL = `${baseURL}/v2/query`;
+  constructor(
+    apiKey: string,
+    projectId: string,
+    baseURL: string = 'https://api.kapa.ai',
+    streaming: boolean = true,
+    cache?: ResponseCache<DocsAnswer>,
+    rateLimit: KapaRateLimitOptions = { requestsPerMinute: 60, maxConcurrent: 4, maxRetries: 3 },
+    metrics?: MetricsRegistry
+  ) {
+    this.projectId = projectId;
+    this.streaming = streaming;
+    this.cache = cache;
+    this.rateLimiter = new TokenBucket(rateLimit.requestsPerMinute);
+    this.concurrencyLimiter = new ConcurrencyLimiter(rateLimit.maxConcurrent);
+    this.maxRetries = rateLimit.maxRetries;
+    this.metrics = metrics;
     
+    // Configuration selon la documentation officielle Kapa
     this.client = axios.create({
-      baseURL: fullURL,
+      baseURL: baseURL,
       headers: {
-        'X-API-Key': apiKey,
+        'X-API-KEY': apiKey,  // Format exact de la documentation
         'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        'User-Agent': 'Strapi-MCP-Server/1.0'
       },
       timeout: 30000,
     });
   }
 
-  async query(request: KapaQueryRequest): Promise<KapaResponse> {
+  private async requestAnswer(request: KapaQueryRequest, options: DocsQueryOptions = {}): Promise<DocsAnswer> {
     try {
-      const response = await this.client.post('/', {
-        query: request.query,
-        context: request.context,
-        max_sources: request.max_sources || 5,
-        // Utilise le project_id dans le payload plutôt que dans l'URL
-        project_id: process.env.KAPA_PROJECT_ID,
-        source_filter: 'strapi-docs',
-      });
+      const response = await this.client.post(
+        this.getEndpoint(request),
+        this.buildPayload(request, options.user),
+        { signal: options.signal }
+      );
+      
+      // Corps non JSON (proxy, page d'erreur HTML...) : axios le laisse en texte
+      if (!response.data || typeof response.data !== 'object') {
+        throw new Error('Invalid response from Kapa API: expected a JSON body');
+      }
 
-      return {
-        answer: response.data.answer || 'No answer available',
-        sources: response.data.sources || [],
-        confidence: response.data.confidence || 0,
+      // Adapter la réponse selon le format officiel de Kapa
+      return this.adaptDocsAnswer(response.data);
+      
+    } catch (error: any) {
+      throw this.mapError(error, this.getNotFoundMessage(request));
+    }
+  }
+
+  // Variante streamée : les morceaux de réponse sont relayés au fur et à mesure via onChunk
+  private async requestAnswerStream(request: KapaQueryRequest, options: DocsQueryOptions = {}): Promise<DocsAnswer> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    let idleTimer: NodeJS.Timeout | undefined;
+    let timedOut = false;
+    let started = false;
+
+    // Pas de timeout global : on coupe seulement si Kapa n'envoie plus rien
+    const resetIdleTimer = () => {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, STREAM_IDLE_TIMEOUT);
+    };
+
+    if (options.signal?.aborted) {
+      controller.abort();
+    }
+    options.signal?.addEventListener('abort', abort);
+
+    try {
+      resetIdleTimer();
+      const response = await this.client.post(
+        `${this.getEndpoint(request)}stream/`,
+        this.buildPayload(request, options.user),
+        {
+          responseType: 'stream',
+          timeout: 0,
+          signal: controller.signal,
+          headers: { 'Accept': 'text/event-stream, application/json' },
+        }
+      );
+
+      const data: any = { answer: '' };
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      const handleRecord = (record: string) => {
+        if (!record.trim()) return;
+
+        let chunk: any;
+        try {
+          chunk = JSON.parse(record).chunk || {};
+        } catch {
+          throw new Error('Invalid response from Kapa API: malformed record in the answer stream');
+        }
+        const content = chunk.content || {};
+
+        switch (chunk.type) {
+          case 'partial_answer':
+            started = true;
+            data.answer += content.text || '';
+            options.onChunk?.(content.text || '', data.answer);
+            break;
+          case 'relevant_sources':
+            data.relevant_sources = content.relevant_sources || [];
+            break;
+          case 'identifiers':
+            data.thread_id = content.thread_id;
+            data.question_answer_id = content.question_answer_id;
+            break;
+          case 'error':
+            throw new Error(`Kapa streaming error: ${content.reason || 'Unknown error'}`);
+        }
+
+        if (content.is_uncertain !== undefined) {
+          data.is_uncertain = content.is_uncertain;
+        }
       };
-    } catch (error) {
-      console.error('Kapa API error:', error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to query Kapa API: ${errorMessage}`);
+
+      for await (const part of response.data) {
+        resetIdleTimer();
+        buffer += decoder.decode(part, { stream: true });
+
+        const records = buffer.split(STREAM_RECORD_SEPARATOR);
+        buffer = records.pop() || '';
+        records.forEach(handleRecord);
+      }
+      handleRecord(buffer + decoder.decode());
+
+      return this.adaptDocsAnswer(data);
+
+    } catch (error: any) {
+      if (options.signal?.aborted) {
+        throw new AbortError();
+      }
+
+      // En mode stream le corps d'erreur est un flux : on le lit pour récupérer le détail
+      if (typeof error.response?.data?.pipe === 'function') {
+        error.response.data = await this.readStreamBody(error.response.data);
+      }
+
+      if (timedOut) {
+        this.metrics?.recordKapaError('timeout');
+      }
+      const mapped = timedOut
+        ? new KapaApiError(`Kapa API stopped responding for ${STREAM_IDLE_TIMEOUT / 1000}s while streaming the answer`, undefined, undefined, true)
+        : this.mapError(error, this.getNotFoundMessage(request));
+
+      // Une réponse déjà partiellement relayée au client ne peut pas être rejouée
+      if (started) {
+        mapped.retryable = false;
+      }
+      throw mapped;
+    } finally {
+      if (idleTimer) clearTimeout(idleTimer);
+      options.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  private async readStreamBody(stream: any): Promise<any> {
+    try {
+      let body = '';
+      for await (const part of stream) {
+        body += part.toString();
+      }
+      return JSON.parse(body);
+    } catch {
+      return undefined;
     }
   }
 
-  async searchDocumentation(query: string, context?: string): Promise<KapaResponse> {
+  private getEndpoint(request: KapaQueryRequest): string {
+    // Endpoint exact selon la documentation
+    // Les questions de suivi passent par le endpoint du thread pour garder le contexte
+    return request.thread_id
+      ? `/query/v1/threads/${encodeURIComponent(request.thread_id)}/chat/`
+      : `/query/v1/projects/${this.projectId}/chat/`;
+  }
+
+  private buildPayload(request: KapaQueryRequest, user?: DocsUser) {
+    // Payload selon le format officiel
+    return {
+      query: request.query,
+      // Champs optionnels
+      ...(request.integration_id && { integration_id: request.integration_id }),
+      ...(request.source_ids_include && { source_ids_include: request.source_ids_include }),
+      // Utilisateur à l'origine de la question, pour les statistiques Kapa
+      user: this.buildUser(user),
+      metadata: {
+        origin_url: 'https://docs.strapi.io'
+      }
+    };
+  }
+
+  // Même identité pour les questions et les votes
+  private buildUser(user?: DocsUser) {
+    return {
+      unique_client_id: user?.id || ANONYMOUS_CLIENT_ID,
+      metadata: {
+        ...user?.metadata,
+        source: 'strapi-mcp-server'
+      }
+    };
+  }
+
+  private getNotFoundMessage(request: KapaQueryRequest): string {
+    return request.thread_id
+      ? `Thread not found: ${request.thread_id}. Start a new conversation with query_strapi_docs.`
+      : 'Project not found. Please check your KAPA_PROJECT_ID.';
+  }
+
+  private mapError(error: any, notFoundMessage: string): KapaApiError {
+    if (axios.isCancel(error)) {
+      return new KapaApiError('Request cancelled by the client');
+    }
+
+    // Log to stderr only for MCP compatibility
+    logger.error('Kapa API Error', { status: error.response?.status, error: error.response?.data || error.message });
+    if (error.response || error.request) {
+      this.metrics?.recordKapaError(
+        error.response ? String(error.response.status) : error.code === 'ECONNABORTED' ? 'timeout' : 'network'
+      );
+    }
+    
+    let errorMessage = 'Failed to query Kapa API';
+    
+    if (error.response) {
+      const status = error.response.status;
+      const data = error.response.data;
+      
+      switch (status) {
+        case 401:
+          errorMessage = 'Invalid API key. Please check your KAPA_API_KEY.';
+          break;
+        case 403:
+          errorMessage = 'Access forbidden. Please check your project permissions.';
+          break;
+        case 404:
+          errorMessage = notFoundMessage;
+          break;
+        case 422:
+          errorMessage = `Invalid request: ${data?.detail || 'Please check your request parameters.'}`;
+          break;
+        case 429:
+          errorMessage = 'Rate limit exceeded. Please try again later.';
+          break;
+        default:
+          errorMessage = `API error (${status}): ${data?.detail || data?.message || 'Unknown error'}`;
+      }
+    } else if (error.request) {
+      errorMessage = `Network error: Unable to reach Kapa API at ${error.config?.baseURL}`;
+    } else if (error instanceof Error) {
+      errorMessage = error.message;
+    }
+    
+    const status = error.response?.status;
+    return new KapaApiError(
+      errorMessage,
+      status,
+      this.parseRetryAfter(error.response?.headers?.['retry-after']),
+      // 429, erreurs serveur et erreurs réseau sont temporaires
+      status === 429 || status >= 500 || (!error.response && !!error.request)
+    );
+  }
+
+  private parseRetryAfter(value?: string): number | undefined {
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return seconds * 1000;
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  // Limite de débit, de parallélisme et nouvelles tentatives autour d'un appel à Kapa
+  private withRateLimit<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return this.concurrencyLimiter.run(() =>
+      retryWithBackoff(async () => {
+        await this.rateLimiter.acquire(signal);
+        return fn();
+      }, {
+        retries: this.maxRetries,
+        signal,
+        shouldRetry: (error) => error instanceof KapaApiError && error.retryable,
+        getRetryAfterMs: (error) => error.retryAfterMs,
+        describeError: (error) => error.status ? `HTTP ${error.status}` : error.message,
+      }),
+      signal
+    );
+  }
+
+  private adaptDocsAnswer(data: any): DocsAnswer {
+    // Format de réponse selon la documentation Kapa
+    const sources = (data.relevant_sources || []).map((source: any) => ({
+      title: source.title || source.name || 'Documentation',
+      url: source.source_url || source.url || '#',
+      snippet: source.snippet || source.content || source.excerpt || ''
+    }));
+
+    return {
+      answer: data.answer || 'No answer available',
+      sources: sources,
+      confidence: data.confidence || (data.is_uncertain ? 0.5 : 0.8),
+      thread_id: data.thread_id,
+      question_answer_id: data.question_answer_id,
+      is_uncertain: data.is_uncertain || false
+    };
+  }
+
+  async query(
+    query: string,
+    context?: string,
+    params: SearchParams = {},
+    options: DocsQueryOptions = {}
+  ): Promise<DocsAnswer> {
+    // Si un contexte est fourni, l'inclure dans la requête
     const enhancedQuery = context 
-      ? `${query}\n\nContext: ${context}`
+      ? `Context: ${context}\n\nQuestion: ${query}`
       : query;
 
-    return this.query({
+    return this.send({
       query: enhancedQuery,
-      max_sources: 5,
+      ...(params.thread_id && { thread_id: params.thread_id }),
+      ...(params.source_ids_include && { source_ids_include: params.source_ids_include }),
+    }, options);
+  }
+
+  // Question de suivi dans un thread Kapa existant
+  async continueThread(
+    threadId: string,
+    query: string,
+    params: Omit<SearchParams, 'thread_id'> = {},
+    options: DocsQueryOptions = {}
+  ): Promise<DocsAnswer> {
+    const response = await this.send({
+      query,
+      thread_id: threadId,
+      ...(params.source_ids_include && { source_ids_include: params.source_ids_include }),
+    }, options);
+
+    // Kapa ne renvoie pas toujours le thread_id sur les réponses de suivi
+    return {
+      ...response,
+      thread_id: response.thread_id || threadId,
+    };
+  }
+
+  private async send(request: KapaQueryRequest, options: DocsQueryOptions): Promise<DocsAnswer> {
+    // Les réponses d'un thread dépendent de l'historique : jamais mises en cache
+    const cache = request.thread_id ? undefined : this.cache;
+
+    const cacheKey = { ...request, project_id: this.projectId, user: options.user?.id };
+
+    const entry = await cache?.get(cacheKey);
+    if (entry) {
+      return {
+        ...entry.value,
+        cached: true,
+        cached_at: new Date(entry.createdAt).toISOString(),
+      };
+    }
+
+    const response = await this.withRateLimit(
+      () => this.streaming ? this.requestAnswerStream(request, options) : this.requestAnswer(request, options),
+      options.signal
+    );
+
+    await cache?.set(cacheKey, response);
+    return response;
+  }
+
+  // Vote sur une réponse Kapa, visible par l'équipe documentation
+  async feedback(questionAnswerId: string, reaction: FeedbackReaction, comment?: string, user?: DocsUser): Promise<void> {
+    await this.withRateLimit(async () => {
+      try {
+        await this.client.post(
+          `/query/v1/question-answers/${encodeURIComponent(questionAnswerId)}/feedback/`,
+          {
+            reaction,
+            ...(comment && { comment }),
+            user: this.buildUser(user),
+          }
+        );
+      } catch (error: any) {
+        throw this.mapError(error, `Answer not found: ${questionAnswerId}. Please check the question_answer_id.`);
+      }
     });
   }
-}
\ No newline at end of file
+
+  // Méthode pour tester la connexion avec une requête simple
+  async healthCheck(): Promise<ProviderHealth> {
+    try {
+      const response = await this.withRateLimit(() => this.requestAnswer({
+        query: "What is Strapi? Please provide a brief answer."
+      }));
+      
+      if (response.answer && response.answer.length > 10) {
+        return {
+          success: true,
+          message: "Connection successful",
+          details: {
+            answer_length: response.answer.length,
+            sources_count: response.sources.length,
+            thread_id: response.thread_id,
+            is_uncertain: response.is_uncertain
+          }
+        };
+      } else {
+        return {
+          success: false,
+          message: "Connection established but received empty response"
+        };
+      }
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+}
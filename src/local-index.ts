@@ -0,0 +1,269 @@
+import { promises as fs, readFileSync } from 'fs';
+import * as path from 'path';
+
+export interface IndexedSection {
+  title: string;
+  url: string;
+  text: string;
+}
+
+export interface DocsIndexFile {
+  version: 1;
+  builtAt: string;
+  source: string;
+  sections: IndexedSection[];
+}
+
+export interface LocalSearchResult {
+  title: string;
+  url: string;
+  excerpt: string;
+  score: number;
+}
+
+export const DEFAULT_INDEX_PATH = '.cache/docs-index.json';
+
+const DOCS_BASE_URL = 'https://docs.strapi.io';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in',
+  'is', 'it', 'my', 'of', 'on', 'or', 'the', 'this', 'to', 'what', 'when', 'with', 'you', 'your', 'strapi',
+]);
+
+// BM25
+const K1 = 1.2;
+const B = 0.75;
+
+// Pluriels ramenés au singulier pour que "filters" trouve "filter"
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9_]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+// Slug d'ancre à la manière de Docusaurus
+function slugify(heading: string): string {
+  return heading
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-');
+}
+
+// Nettoie le MDX pour ne garder que le texte lisible
+function cleanMarkdown(text: string): string {
+  return text
+    .replace(/^import .+ from .+;?$/gm, '')
+    .replace(/<\/?[A-Z][\w.]*[^>]*>/g, '')
+    .replace(/^:::.*$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function parseFrontmatter(content: string): { data: Record<string, string>; body: string } {
+  const match = content.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (!match) {
+    return { data: {}, body: content };
+  }
+
+  const data: Record<string, string> = {};
+  for (const line of match[1].split('\n')) {
+    const field = line.match(/^(\w+):\s*(.*)$/);
+    if (field) {
+      data[field[1]] = field[2].replace(/^['"]|['"]$/g, '');
+    }
+  }
+  return { data, body: content.slice(match[0].length) };
+}
+
+// Découpe une page en sections (une par titre ## ou ###)
+export function splitIntoSections(content: string, pageUrl: string): IndexedSection[] {
+  const { data, body } = parseFrontmatter(content);
+  const pageTitle = data.title || body.match(/^#\s+(.+)$/m)?.[1]?.trim() || pageUrl;
+  const sections: IndexedSection[] = [];
+
+  let current = { heading: '', anchor: '', lines: [] as string[] };
+  let inCode = false;
+
+  const flush = () => {
+    const text = cleanMarkdown(current.lines.join('\n'));
+    if (text) {
+      sections.push({
+        title: current.heading ? `${pageTitle} - ${current.heading}` : pageTitle,
+        url: current.anchor ? `${pageUrl}#${current.anchor}` : pageUrl,
+        text,
+      });
+    }
+  };
+
+  for (const line of body.split('\n')) {
+    if (line.trim().startsWith('```')) {
+      inCode = !inCode;
+    }
+
+    const heading = !inCode && line.match(/^#{2,3}\s+(.+?)\s*(\{#([\w-]+)\})?\s*$/);
+    if (heading) {
+      flush();
+      const title = heading[1].replace(/`/g, '');
+      current = { heading: title, anchor: heading[3] || slugify(title), lines: [] };
+    } else if (!/^#\s/.test(line) || inCode) {
+      current.lines.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+}
+
+async function findMarkdownFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory() && !entry.name.startsWith('.') && !entry.name.startsWith('_') && entry.name !== 'node_modules') {
+      files.push(...await findMarkdownFiles(fullPath));
+    } else if (entry.isFile() && /\.mdx?$/.test(entry.name) && !entry.name.startsWith('_')) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+// Construit l'index depuis un clone de strapi/documentation (ou un dossier de markdown)
+export async function buildDocsIndex(sourceDir: string): Promise<DocsIndexFile> {
+  const root = path.resolve(sourceDir);
+  const docusaurusDocs = path.join(root, 'docusaurus', 'docs');
+  const docsRoot = await fs.access(docusaurusDocs).then(() => docusaurusDocs, () => root);
+
+  const sections: IndexedSection[] = [];
+  for (const file of await findMarkdownFiles(docsRoot)) {
+    const content = await fs.readFile(file, 'utf-8');
+    const slug = parseFrontmatter(content).data.slug;
+    const relative = path.relative(docsRoot, file).split(path.sep).join('/').replace(/(\/index)?\.mdx?$/, '');
+    const pagePath = slug
+      ? (slug.startsWith('/') ? slug : `/${path.posix.join(path.posix.dirname(relative), slug)}`)
+      : `/${relative}`;
+
+    sections.push(...splitIntoSections(content, `${DOCS_BASE_URL}${pagePath}`));
+  }
+
+  return {
+    version: 1,
+    builtAt: new Date().toISOString(),
+    source: root,
+    sections,
+  };
+}
+
+export class LocalDocsIndex {
+  private termFrequencies: Array<Map<string, number>> = [];
+  private lengths: number[] = [];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(private index: DocsIndexFile) {
+    for (const section of index.sections) {
+      // Le titre compte double
+      const tokens = [...tokenize(section.title), ...tokenize(section.title), ...tokenize(section.text)];
+      const frequencies = new Map<string, number>();
+      tokens.forEach(token => frequencies.set(token, (frequencies.get(token) || 0) + 1));
+
+      this.termFrequencies.push(frequencies);
+      this.lengths.push(tokens.length);
+      frequencies.forEach((_count, token) => {
+        this.documentFrequencies.set(token, (this.documentFrequencies.get(token) || 0) + 1);
+      });
+    }
+
+    const totalLength = this.lengths.reduce((sum, length) => sum + length, 0);
+    this.averageLength = this.lengths.length > 0 ? totalLength / this.lengths.length : 0;
+  }
+
+  static load(filePath: string): LocalDocsIndex {
+    let content: string;
+    try {
+      content = readFileSync(filePath, 'utf-8');
+    } catch {
+      throw new Error(`Local docs index not found at ${filePath}. Build it with: npm run index-docs -- <path to strapi/documentation>`);
+    }
+
+    const index = JSON.parse(content) as DocsIndexFile;
+    if (index.version !== 1 || !Array.isArray(index.sections)) {
+      throw new Error(`Invalid local docs index ${filePath}. Rebuild it with: npm run index-docs`);
+    }
+    return new LocalDocsIndex(index);
+  }
+
+  get builtAt(): string {
+    return this.index.builtAt;
+  }
+
+  get size(): number {
+    return this.index.sections.length;
+  }
+
+  // urlPrefixes : ne garde que les pages de ces sections de la documentation
+  search(query: string, limit: number = 5, urlPrefixes?: string[]): LocalSearchResult[] {
+    const queryTokens = [...new Set(tokenize(query))];
+    const total = this.index.sections.length;
+    const results: LocalSearchResult[] = [];
+
+    this.termFrequencies.forEach((frequencies, i) => {
+      if (urlPrefixes && !urlPrefixes.some(prefix => this.index.sections[i].url.startsWith(prefix))) {
+        return;
+      }
+
+      let score = 0;
+
+      for (const token of queryTokens) {
+        const tf = frequencies.get(token);
+        if (!tf) continue;
+
+        const df = this.documentFrequencies.get(token) || 0;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * this.lengths[i] / this.averageLength));
+      }
+
+      if (score > 0) {
+        const section = this.index.sections[i];
+        results.push({
+          title: section.title,
+          url: section.url,
+          excerpt: this.getExcerpt(section.text, queryTokens),
+          score,
+        });
+      }
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  // Paragraphe contenant le plus de termes de la requête
+  private getExcerpt(text: string, queryTokens: string[], maxLength: number = 400): string {
+    const paragraphs = text.split(/\n\s*\n/).filter(paragraph => paragraph.trim());
+    let best = paragraphs[0] || '';
+    let bestScore = -1;
+
+    for (const paragraph of paragraphs) {
+      const tokens = new Set(tokenize(paragraph));
+      const score = queryTokens.filter(token => tokens.has(token)).length;
+      if (score > bestScore) {
+        best = paragraph;
+        bestScore = score;
+      }
+    }
+
+    const excerpt = best.trim();
+    return excerpt.length > maxLength ? `${excerpt.slice(0, maxLength).trimEnd()}…` : excerpt;
+  }
+}
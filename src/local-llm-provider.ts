@@ -0,0 +1,239 @@
+import axios, { AxiosInstance } from 'axios';
+import { randomUUID } from 'crypto';
+import {
+  DocsAnswer,
+  DocsProvider,
+  DocsQueryOptions,
+  FeedbackReaction,
+  ProviderHealth,
+  SearchParams,
+} from './docs-provider';
+import { getSectionUrlPrefixes } from './doc-sections';
+import { LocalDocsIndex, LocalSearchResult } from './local-index';
+import { logger } from './logger';
+import { AbortError } from './rate-limiter';
+
+export interface LocalLlmOptions {
+  // API compatible OpenAI (Ollama, vLLM, llama.cpp, LM Studio...), ex. http://localhost:11434/v1
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+  contextSections?: number;
+  timeout?: number;
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const SYSTEM_PROMPT = 'You are a Strapi documentation assistant. Answer the question using only the numbered documentation excerpts provided. '
+  + 'Cite the excerpts you use as [1], [2]... Include code examples from the excerpts when relevant. '
+  + 'If the excerpts do not contain the answer, say that the documentation does not cover it instead of guessing.';
+
+const MAX_THREADS = 100;
+// Historique envoyé au modèle pour une question de suivi (questions et réponses)
+const MAX_THREAD_MESSAGES = 8;
+
+// LLM auto-hébergé + recherche dans l'index local : les questions ne quittent pas l'infrastructure
+export class LocalLlmProvider implements DocsProvider {
+  readonly name = 'local';
+  private client: AxiosInstance;
+  private threads = new Map<string, ChatMessage[]>();
+
+  constructor(private options: LocalLlmOptions, private getIndex: () => LocalDocsIndex) {
+    this.client = axios.create({
+      baseURL: options.baseURL.replace(/\/+$/, ''),
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Strapi-MCP-Server/1.0',
+        ...(options.apiKey && { 'Authorization': `Bearer ${options.apiKey}` }),
+      },
+      timeout: options.timeout || 120000,
+    });
+  }
+
+  async query(
+    query: string,
+    context?: string,
+    params: SearchParams = {},
+    options: DocsQueryOptions = {}
+  ): Promise<DocsAnswer> {
+    return this.ask(randomUUID(), [], query, context, params, options);
+  }
+
+  async continueThread(
+    threadId: string,
+    query: string,
+    params: Omit<SearchParams, 'thread_id'> = {},
+    options: DocsQueryOptions = {}
+  ): Promise<DocsAnswer> {
+    const history = this.threads.get(threadId);
+    if (!history) {
+      throw new Error(`Thread not found: ${threadId}. Start a new conversation with query_strapi_docs.`);
+    }
+    return this.ask(threadId, history, query, undefined, params, options);
+  }
+
+  // Pas d'équipe à prévenir côté LLM local : le vote est journalisé
+  async feedback(questionAnswerId: string, reaction: FeedbackReaction, comment?: string): Promise<void> {
+    logger.info('[Local LLM feedback]', { reaction, question_answer_id: questionAnswerId, comment });
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    let sections: number;
+    try {
+      sections = this.getIndex().size;
+    } catch (error) {
+      return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+
+    try {
+      const response = await this.client.get('/models', { timeout: 10000 });
+      const models: string[] = (response.data?.data || []).map((model: any) => model.id);
+
+      if (models.length > 0 && !models.includes(this.options.model)) {
+        return {
+          success: false,
+          message: `Model "${this.options.model}" is not served by ${this.options.baseURL} (available: ${models.join(', ')})`,
+        };
+      }
+      return {
+        success: true,
+        message: 'Connection successful',
+        details: { api_url: this.options.baseURL, model: this.options.model, index_sections: sections },
+      };
+    } catch (error: any) {
+      return { success: false, message: this.describeError(error) };
+    }
+  }
+
+  private async ask(
+    threadId: string,
+    history: ChatMessage[],
+    query: string,
+    context: string | undefined,
+    params: Omit<SearchParams, 'thread_id'>,
+    options: DocsQueryOptions
+  ): Promise<DocsAnswer> {
+    const results = this.getIndex().search(
+      context ? `${query} ${context}` : query,
+      this.options.contextSections || 5,
+      getSectionUrlPrefixes(params.sections)
+    );
+    const question: ChatMessage = {
+      role: 'user',
+      content: `${context ? `Context: ${context}\n\n` : ''}Question: ${query}`,
+    };
+    const messages: ChatMessage[] = [
+      { role: 'system', content: `${SYSTEM_PROMPT}\n\nDocumentation excerpts:\n\n${this.formatExcerpts(results)}` },
+      ...history.slice(-MAX_THREAD_MESSAGES),
+      question,
+    ];
+
+    const answer = options.onChunk
+      ? await this.completeStream(messages, options)
+      : await this.complete(messages, options);
+
+    this.saveThread(threadId, [...history, question, { role: 'assistant', content: answer }]);
+
+    return {
+      answer: answer || 'No answer available',
+      sources: results.map(result => ({ title: result.title, url: result.url, snippet: result.excerpt })),
+      confidence: results.length > 0 ? 0.7 : 0.3,
+      thread_id: threadId,
+      question_answer_id: randomUUID(),
+      is_uncertain: results.length === 0,
+    };
+  }
+
+  private formatExcerpts(results: LocalSearchResult[]): string {
+    if (results.length === 0) {
+      return 'No excerpt matches this question.';
+    }
+    return results
+      .map((result, index) => `[${index + 1}] ${result.title} (${result.url})\n${result.excerpt}`)
+      .join('\n\n');
+  }
+
+  private async complete(messages: ChatMessage[], options: DocsQueryOptions): Promise<string> {
+    try {
+      const response = await this.client.post(
+        '/chat/completions',
+        { model: this.options.model, messages },
+        { signal: options.signal }
+      );
+      return response.data?.choices?.[0]?.message?.content || '';
+    } catch (error: any) {
+      throw this.mapError(error, options);
+    }
+  }
+
+  // Flux SSE au format OpenAI : "data: {...}" puis "data: [DONE]"
+  private async completeStream(messages: ChatMessage[], options: DocsQueryOptions): Promise<string> {
+    try {
+      const response = await this.client.post(
+        '/chat/completions',
+        { model: this.options.model, messages, stream: true },
+        { signal: options.signal, responseType: 'stream', headers: { 'Accept': 'text/event-stream' } }
+      );
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let answer = '';
+
+      const handleLine = (line: string) => {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') return;
+
+        const text = JSON.parse(data).choices?.[0]?.delta?.content || '';
+        if (text) {
+          answer += text;
+          options.onChunk?.(text, answer);
+        }
+      };
+
+      for await (const part of response.data) {
+        buffer += decoder.decode(part, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+      }
+      handleLine(buffer + decoder.decode());
+
+      return answer;
+    } catch (error: any) {
+      throw this.mapError(error, options);
+    }
+  }
+
+  private saveThread(threadId: string, messages: ChatMessage[]): void {
+    this.threads.delete(threadId);
+    this.threads.set(threadId, messages.slice(-MAX_THREAD_MESSAGES));
+
+    while (this.threads.size > MAX_THREADS) {
+      const oldest = this.threads.keys().next().value;
+      if (oldest === undefined) break;
+      this.threads.delete(oldest);
+    }
+  }
+
+  private mapError(error: any, options: DocsQueryOptions): Error {
+    if (options.signal?.aborted || axios.isCancel(error)) {
+      return new AbortError();
+    }
+    return new Error(this.describeError(error));
+  }
+
+  private describeError(error: any): string {
+    if (error.response) {
+      const data = error.response.data;
+      const detail = typeof data?.pipe === 'function' ? undefined : data?.error?.message || data?.error || data?.detail;
+      return `Local LLM API error (${error.response.status}): ${detail || 'Unknown error'}`;
+    }
+    if (error.request) {
+      return `Network error: Unable to reach the local LLM API at ${this.options.baseURL}`;
+    }
+    return error.message || String(error);
+  }
+}
@@ -0,0 +1,63 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFormat = 'text' | 'json';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Journal sur stderr : stdout est réservé au protocole MCP en stdio
+export class Logger {
+  constructor(
+    private format: LogFormat = 'text',
+    private level: LogLevel = 'info',
+    private write: (line: string) => void = (line) => process.stderr.write(`${line}\n`)
+  ) {}
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) {
+      return;
+    }
+
+    if (this.format === 'json') {
+      this.write(JSON.stringify({ time: new Date().toISOString(), level, message, ...fields }));
+      return;
+    }
+
+    const details = Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+    this.write(details.length > 0 ? `${message} (${details.join(', ')})` : message);
+  }
+}
+
+// Message d'une erreur quelconque, pour les champs du journal
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function createLogger(env: NodeJS.ProcessEnv = process.env): Logger {
+  const format = (env.LOG_FORMAT || 'text').toLowerCase();
+  const level = (env.LOG_LEVEL || 'info').toLowerCase();
+
+  return new Logger(
+    format === 'json' ? 'json' : 'text',
+    (LOG_LEVELS as string[]).includes(level) ? level as LogLevel : 'info'
+  );
+}
+
+export const logger = createLogger();
@@ -0,0 +1,232 @@
+export type ToolCallStatus = 'success' | 'error';
+
+export interface ToolCallEvent {
+  timestamp: number;
+  tool: string;
+  status: ToolCallStatus;
+  duration_ms: number;
+  provider?: string;
+  // Renseignés seulement pour les outils qui renvoient une réponse de documentation
+  uncertain?: boolean;
+  cached?: boolean;
+}
+
+export interface ToolUsage {
+  tool: string;
+  calls: number;
+  errors: number;
+  avg_ms: number;
+  p95_ms: number;
+  answers: number;
+  uncertain_rate?: number;
+  cache_hit_rate?: number;
+}
+
+export interface UsageReport {
+  window_start: string;
+  window_end: string;
+  calls: number;
+  errors: number;
+  answers: number;
+  uncertain_rate?: number;
+  cache_hit_rate?: number;
+  tools: ToolUsage[];
+  providers: Record<string, number>;
+  kapa_errors: Record<string, number>;
+  // Des appels plus anciens que la fenêtre ont été oubliés : le rapport est partiel
+  truncated: boolean;
+}
+
+interface ToolMetrics {
+  calls: Record<ToolCallStatus, number>;
+  // Compteurs cumulés par borne de LATENCY_BUCKETS (secondes)
+  buckets: number[];
+  durationSum: number;
+  answers: number;
+  uncertain: number;
+  cached: number;
+}
+
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+const DEFAULT_MAX_EVENTS = 10000;
+const METRIC_PREFIX = 'strapi_mcp';
+
+function ratio(part: number, total: number): number | undefined {
+  return total > 0 ? Math.round((part / total) * 1000) / 1000 : undefined;
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+// Compteurs cumulés (Prometheus) + derniers appels en mémoire (rapports sur une fenêtre de temps)
+export class MetricsRegistry {
+  private tools = new Map<string, ToolMetrics>();
+  private kapaErrors = new Map<string, number>();
+  private events: ToolCallEvent[] = [];
+  private kapaErrorEvents: Array<{ timestamp: number; code: string }> = [];
+  private droppedBefore = 0;
+
+  constructor(private maxEvents: number = DEFAULT_MAX_EVENTS) {}
+
+  recordToolCall(event: ToolCallEvent): void {
+    const metrics = this.getToolMetrics(event.tool);
+    const seconds = event.duration_ms / 1000;
+
+    metrics.calls[event.status] += 1;
+    metrics.durationSum += seconds;
+    LATENCY_BUCKETS.forEach((bound, index) => {
+      if (seconds <= bound) metrics.buckets[index] += 1;
+    });
+
+    if (event.uncertain !== undefined) {
+      metrics.answers += 1;
+      if (event.uncertain) metrics.uncertain += 1;
+      if (event.cached) metrics.cached += 1;
+    }
+
+    this.events.push(event);
+    while (this.events.length > this.maxEvents) {
+      this.droppedBefore = this.events.shift()!.timestamp;
+    }
+  }
+
+  // Code d'erreur Kapa : statut HTTP, "network" ou "timeout"
+  recordKapaError(code: string): void {
+    this.kapaErrors.set(code, (this.kapaErrors.get(code) || 0) + 1);
+    this.kapaErrorEvents.push({ timestamp: Date.now(), code });
+    if (this.kapaErrorEvents.length > this.maxEvents) {
+      this.kapaErrorEvents.shift();
+    }
+  }
+
+  report(windowMs: number, now: number = Date.now()): UsageReport {
+    const since = now - windowMs;
+    const events = this.events.filter(event => event.timestamp >= since);
+    const answers = events.filter(event => event.uncertain !== undefined);
+
+    const byTool = new Map<string, ToolCallEvent[]>();
+    events.forEach(event => byTool.set(event.tool, [...(byTool.get(event.tool) || []), event]));
+
+    const tools = [...byTool.entries()].map(([tool, calls]): ToolUsage => {
+      const toolAnswers = calls.filter(event => event.uncertain !== undefined);
+      const durations = calls.map(event => event.duration_ms);
+      return {
+        tool,
+        calls: calls.length,
+        errors: calls.filter(event => event.status === 'error').length,
+        avg_ms: Math.round(durations.reduce((sum, value) => sum + value, 0) / calls.length),
+        p95_ms: Math.round(percentile(durations, 95)),
+        answers: toolAnswers.length,
+        uncertain_rate: ratio(toolAnswers.filter(event => event.uncertain).length, toolAnswers.length),
+        cache_hit_rate: ratio(toolAnswers.filter(event => event.cached).length, toolAnswers.length),
+      };
+    }).sort((a, b) => b.calls - a.calls);
+
+    const providers: Record<string, number> = {};
+    events.forEach(event => {
+      if (event.provider) providers[event.provider] = (providers[event.provider] || 0) + 1;
+    });
+
+    const kapaErrors: Record<string, number> = {};
+    this.kapaErrorEvents
+      .filter(event => event.timestamp >= since)
+      .forEach(event => { kapaErrors[event.code] = (kapaErrors[event.code] || 0) + 1; });
+
+    return {
+      window_start: new Date(since).toISOString(),
+      window_end: new Date(now).toISOString(),
+      calls: events.length,
+      errors: events.filter(event => event.status === 'error').length,
+      answers: answers.length,
+      uncertain_rate: ratio(answers.filter(event => event.uncertain).length, answers.length),
+      cache_hit_rate: ratio(answers.filter(event => event.cached).length, answers.length),
+      tools,
+      providers,
+      kapa_errors: kapaErrors,
+      truncated: this.droppedBefore >= since,
+    };
+  }
+
+  // Format texte d'exposition Prometheus
+  toPrometheus(): string {
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string) => {
+      lines.push(`# HELP ${METRIC_PREFIX}_${name} ${help}`, `# TYPE ${METRIC_PREFIX}_${name} ${type}`);
+    };
+    const tools = [...this.tools.entries()];
+
+    metric('tool_calls_total', 'counter', 'Tool calls by tool and status');
+    tools.forEach(([tool, metrics]) => {
+      (Object.keys(metrics.calls) as ToolCallStatus[]).forEach(status => {
+        lines.push(`${METRIC_PREFIX}_tool_calls_total{tool="${escapeLabel(tool)}",status="${status}"} ${metrics.calls[status]}`);
+      });
+    });
+
+    metric('tool_duration_seconds', 'histogram', 'Tool call latency in seconds');
+    tools.forEach(([tool, metrics]) => {
+      const label = `tool="${escapeLabel(tool)}"`;
+      const count = metrics.calls.success + metrics.calls.error;
+      LATENCY_BUCKETS.forEach((bound, index) => {
+        lines.push(`${METRIC_PREFIX}_tool_duration_seconds_bucket{${label},le="${bound}"} ${metrics.buckets[index]}`);
+      });
+      lines.push(
+        `${METRIC_PREFIX}_tool_duration_seconds_bucket{${label},le="+Inf"} ${count}`,
+        `${METRIC_PREFIX}_tool_duration_seconds_sum{${label}} ${metrics.durationSum}`,
+        `${METRIC_PREFIX}_tool_duration_seconds_count{${label}} ${count}`
+      );
+    });
+
+    const answerCounters: Array<[string, 'answers' | 'uncertain' | 'cached', string]> = [
+      ['answers_total', 'answers', 'Documentation answers returned by tool'],
+      ['uncertain_answers_total', 'uncertain', 'Answers flagged as uncertain by the provider'],
+      ['cached_answers_total', 'cached', 'Answers served from the answer cache'],
+    ];
+    answerCounters.forEach(([name, key, help]) => {
+      metric(name, 'counter', help);
+      tools
+        .filter(([, metrics]) => metrics.answers > 0)
+        .forEach(([tool, metrics]) => lines.push(`${METRIC_PREFIX}_${name}{tool="${escapeLabel(tool)}"} ${metrics[key]}`));
+    });
+
+    metric('kapa_errors_total', 'counter', 'Kapa API errors by HTTP status, network or timeout');
+    this.kapaErrors.forEach((count, code) => {
+      lines.push(`${METRIC_PREFIX}_kapa_errors_total{code="${escapeLabel(code)}"} ${count}`);
+    });
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private getToolMetrics(tool: string): ToolMetrics {
+    let metrics = this.tools.get(tool);
+    if (!metrics) {
+      metrics = {
+        calls: { success: 0, error: 0 },
+        buckets: LATENCY_BUCKETS.map(() => 0),
+        durationSum: 0,
+        answers: 0,
+        uncertain: 0,
+        cached: 0,
+      };
+      this.tools.set(tool, metrics);
+    }
+    return metrics;
+  }
+}
+
+// Fenêtre de temps : "30m", "24h", "7d"
+export function parseWindow(value: string = '24h'): number {
+  const match = value.trim().match(/^(\d+)\s*([mhd])$/i);
+  if (!match || parseInt(match[1], 10) === 0) {
+    throw new Error(`Invalid window "${value}". Expected a duration like "30m", "24h" or "7d".`);
+  }
+
+  const unit = { m: 60000, h: 3600000, d: 86400000 }[match[2].toLowerCase() as 'm' | 'h' | 'd'];
+  return parseInt(match[1], 10) * unit;
+}
@@ -0,0 +1,155 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export interface MigrationCategory {
+  id: string;
+  title: string;
+  description: string;
+  // Question posée à la documentation pour les conseils de migration v5
+  question: string;
+  pattern: RegExp;
+  // Lignes ignorées malgré le motif (ex. attributs d'un schéma de content-type côté serveur)
+  ignore?: RegExp;
+  // Fichiers concernés en entier (ex. lifecycles.js), trouvés même sans motif dans le code
+  filePattern?: RegExp;
+}
+
+export interface MigrationFinding {
+  category: string;
+  file: string;
+  line: number;
+  text: string;
+}
+
+export interface MigrationScanResult {
+  root: string;
+  files_scanned: number;
+  findings: MigrationFinding[];
+  // Trop de fichiers ou de résultats : le scan s'est arrêté avant la fin
+  truncated: boolean;
+}
+
+export const MIGRATION_CATEGORIES: MigrationCategory[] = [
+  {
+    id: 'entity-service',
+    title: 'Entity Service API calls',
+    description: 'strapi.entityService is replaced by the Document Service API (strapi.documents) in Strapi v5.',
+    question: 'How do I migrate strapi.entityService calls from Strapi v4 to the Document Service API in Strapi v5?',
+    pattern: /\bentityService\s*\.\s*\w+/,
+  },
+  {
+    id: 'query-engine',
+    title: 'strapi.query usage',
+    description: 'Direct Query Engine calls bypass documents, draft & publish and locales in Strapi v5.',
+    question: 'How do I replace strapi.query and strapi.db.query calls from Strapi v4 with the Document Service API in Strapi v5?',
+    pattern: /\bstrapi\s*\.\s*(db\s*\.\s*)?query\s*\(/,
+  },
+  {
+    id: 'response-attributes',
+    title: 'attributes nesting in API responses',
+    description: 'Strapi v5 REST responses are flattened: fields are no longer nested under data.attributes.',
+    question: 'How did the REST API response format change in Strapi v5 (no more data.attributes nesting) and how do I update my front-end code?',
+    pattern: /\b\w+(\[\w+\])?\??\.attributes\b/,
+    ignore: /contentTypes?\b|getModel|\bschema\b|\bmodel\b|\bcomponents?\b/i,
+  },
+  {
+    id: 'lifecycle-hooks',
+    title: 'v4 lifecycle hooks',
+    description: 'Database lifecycle hooks are not triggered per document in Strapi v5; Document Service middlewares are recommended.',
+    question: 'How do I migrate Strapi v4 lifecycle hooks (lifecycles.js, strapi.db.lifecycles.subscribe) to Strapi v5 Document Service middlewares?',
+    pattern: /\b(before|after)(Create|Update|Delete|FindOne|FindMany|Count|CreateMany|UpdateMany|DeleteMany)\s*[(:]|\bdb\s*\.\s*lifecycles\s*\.\s*subscribe\b/,
+    filePattern: /(^|\/)content-types\/[^/]+\/lifecycles\.[jt]s$/,
+  },
+  {
+    id: 'plugin-apis',
+    title: 'Old plugin APIs',
+    description: '@strapi/helper-plugin is removed, i18n moved into core and the strapi.plugins getters are deprecated in Strapi v5.',
+    question: 'How do I migrate a Strapi v4 plugin to Strapi v5 (removed @strapi/helper-plugin, i18n moved into core, strapi.plugins getters, Plugin SDK)?',
+    pattern: /@strapi\/helper-plugin|@strapi\/plugin-i18n|\bstrapi\s*\.\s*plugins\s*(\[|\.\s*\w)/,
+  },
+];
+
+const SCANNED_EXTENSIONS = new Set(['.js', '.mjs', '.cjs', '.jsx', '.ts', '.mts', '.cts', '.tsx', '.vue', '.svelte', '.astro']);
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git', '.cache', '.strapi', '.tmp', '.next', '.nuxt', 'build', 'dist', 'coverage', 'public']);
+const MAX_FILE_SIZE = 512 * 1024;
+const MAX_FILES = 5000;
+const MAX_FINDINGS = 1000;
+const MAX_LINE_LENGTH = 160;
+
+async function listSourceFiles(root: string, limit: number): Promise<{ files: string[]; truncated: boolean }> {
+  const files: string[] = [];
+  const pending = [root];
+
+  while (pending.length > 0) {
+    const dir = pending.shift()!;
+    const entries = (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) pending.push(fullPath);
+      } else if (entry.isFile() && SCANNED_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+        if (files.length >= limit) return { files, truncated: true };
+        files.push(fullPath);
+      }
+    }
+  }
+
+  return { files, truncated: false };
+}
+
+// Recherche locale des motifs propres à Strapi v4 : rien n'est envoyé, seules les catégories trouvées sont demandées à la doc
+export async function scanProjectForMigration(projectPath: string): Promise<MigrationScanResult> {
+  const root = path.resolve(projectPath);
+
+  try {
+    if (!(await fs.stat(root)).isDirectory()) throw new Error();
+  } catch {
+    throw new Error(`Project path not found: ${root}`);
+  }
+
+  const { files, truncated } = await listSourceFiles(root, MAX_FILES);
+  const findings: MigrationFinding[] = [];
+
+  for (const file of files) {
+    const stat = await fs.stat(file);
+    if (stat.size > MAX_FILE_SIZE) continue;
+
+    const relative = path.relative(root, file).split(path.sep).join('/');
+    const lines = (await fs.readFile(file, 'utf-8')).split(/\r?\n/);
+
+    for (const category of MIGRATION_CATEGORIES) {
+      const matches = lines
+        .map((text, index) => ({ text, line: index + 1 }))
+        .filter(({ text }) => category.pattern.test(text) && !category.ignore?.test(text));
+
+      if (matches.length === 0 && category.filePattern?.test(relative)) {
+        matches.push({ text: lines.find(text => text.trim()) || '', line: 1 });
+      }
+
+      matches.forEach(({ text, line }) => findings.push({
+        category: category.id,
+        file: relative,
+        line,
+        text: text.trim().slice(0, MAX_LINE_LENGTH),
+      }));
+    }
+
+    if (findings.length >= MAX_FINDINGS) {
+      return { root, files_scanned: files.indexOf(file) + 1, findings: findings.slice(0, MAX_FINDINGS), truncated: true };
+    }
+  }
+
+  return { root, files_scanned: files.length, findings, truncated };
+}
+
+// Résultats regroupés par fichier, dans l'ordre du scan
+export function groupFindingsByFile(findings: MigrationFinding[]): Array<{ file: string; findings: MigrationFinding[] }> {
+  const groups = new Map<string, MigrationFinding[]>();
+  findings.forEach(finding => groups.set(finding.file, [...(groups.get(finding.file) || []), finding]));
+
+  return [...groups.entries()].map(([file, fileFindings]) => ({
+    file,
+    findings: fileFindings.sort((a, b) => a.line - b.line),
+  }));
+}
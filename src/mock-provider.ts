@@ -0,0 +1,79 @@
+import {
+  DocsAnswer,
+  DocsProvider,
+  DocsQueryOptions,
+  FeedbackReaction,
+  ProviderHealth,
+  SearchParams,
+} from './docs-provider';
+import { AbortError } from './rate-limiter';
+
+export interface MockFeedback {
+  questionAnswerId: string;
+  reaction: FeedbackReaction;
+  comment?: string;
+}
+
+// Réponses factices et déterministes, pour les démos et les tests sans Kapa ni LLM
+export class MockDocsProvider implements DocsProvider {
+  readonly name = 'mock';
+  readonly feedbacks: MockFeedback[] = [];
+  private counter = 0;
+
+  async query(
+    query: string,
+    context?: string,
+    params: SearchParams = {},
+    options: DocsQueryOptions = {}
+  ): Promise<DocsAnswer> {
+    return this.answer(params.thread_id, query, context, options);
+  }
+
+  async continueThread(
+    threadId: string,
+    query: string,
+    _params: Omit<SearchParams, 'thread_id'> = {},
+    options: DocsQueryOptions = {}
+  ): Promise<DocsAnswer> {
+    return this.answer(threadId, query, undefined, options);
+  }
+
+  async feedback(questionAnswerId: string, reaction: FeedbackReaction, comment?: string): Promise<void> {
+    this.feedbacks.push({ questionAnswerId, reaction, ...(comment && { comment }) });
+  }
+
+  async healthCheck(): Promise<ProviderHealth> {
+    return { success: true, message: 'Mock provider ready', details: { answers: this.counter } };
+  }
+
+  private answer(threadId: string | undefined, query: string, context: string | undefined, options: DocsQueryOptions): DocsAnswer {
+    if (options.signal?.aborted) {
+      throw new AbortError();
+    }
+
+    this.counter += 1;
+    const answer = `Mock answer to: ${query}${context ? `\n\nContext: ${context}` : ''}`;
+
+    // Relaie la réponse mot par mot, comme un flux
+    let streamed = '';
+    answer.split(/(?<=\s)/).forEach(text => {
+      streamed += text;
+      options.onChunk?.(text, streamed);
+    });
+
+    return {
+      answer,
+      sources: [
+        {
+          title: 'Strapi Documentation',
+          url: 'https://docs.strapi.io/cms/intro',
+          snippet: 'Mock source',
+        },
+      ],
+      confidence: 1,
+      thread_id: threadId || `mock-thread-${this.counter}`,
+      question_answer_id: `mock-answer-${this.counter}`,
+      is_uncertain: false,
+    };
+  }
+}
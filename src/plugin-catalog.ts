@@ -0,0 +1,252 @@
+import axios, { AxiosInstance } from 'axios';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import semver from 'semver';
+import { z } from 'zod';
+import { ServerConfig } from './config';
+import { logger } from './logger';
+
+export interface PluginInfo {
+  name: string;
+  description: string;
+  version: string;
+  // Versions majeures de Strapi supportées ; vide si on ne sait pas
+  strapi_versions: number[];
+  // Plage brute (peerDependencies @strapi/strapi) quand elle existe
+  strapi_range?: string;
+  last_published?: string;
+  docs_url: string;
+  npm_url: string;
+  keywords?: string[];
+}
+
+export type PluginCompatibility = 'compatible' | 'incompatible' | 'unknown';
+
+// Source des métadonnées des plugins : registre npm ou instantané JSON hors ligne
+export interface PluginCatalog {
+  readonly name: string;
+  search(query: string, limit: number): Promise<PluginInfo[]>;
+  get(name: string): Promise<PluginInfo | undefined>;
+}
+
+const DEFAULT_REGISTRY_URL = 'https://registry.npmjs.org';
+// Versions majeures de Strapi publiées, comparées aux plages ouvertes (">=4.0.0", "*")
+const KNOWN_STRAPI_MAJORS = [3, 4, 5];
+// Paquets propres à une version majeure, quand @strapi/strapi n'est pas en peerDependencies
+const MAJOR_MARKER_PACKAGES: Record<string, number> = {
+  '@strapi/helper-plugin': 4,
+  '@strapi/sdk-plugin': 5,
+};
+
+export function npmPackageUrl(name: string): string {
+  return `https://www.npmjs.com/package/${name}`;
+}
+
+// "git+https://github.com/x/y.git" -> "https://github.com/x/y"
+function cleanRepositoryUrl(repository: any): string | undefined {
+  const url = typeof repository === 'string' ? repository : repository?.url;
+  if (!url) return undefined;
+
+  const cleaned = url.replace(/^git\+/, '').replace(/^git:\/\//, 'https://').replace(/\.git$/, '');
+  return /^https?:\/\//.test(cleaned) ? cleaned : undefined;
+}
+
+// Plage semver et version majeure compatibles : "^4.0.0 || ^5.0.0" et 5 -> true, ">=4.0.0" et 5 -> true
+export function rangeIncludesMajor(range: string, major: number): boolean {
+  try {
+    return semver.intersects(range, `${major}.x`, { includePrerelease: true });
+  } catch {
+    return false;
+  }
+}
+
+// Majeures connues ou citées que la plage accepte : "^4.0.0 || ^5.0.0" -> [4, 5], ">=4.0.0" -> [4, 5]
+export function parseMajorVersions(range: string): number[] {
+  const cited = [...range.matchAll(/\d+/g)].map(match => parseInt(match[0], 10)).filter(major => major >= 3 && major < 100);
+  return [...new Set([...KNOWN_STRAPI_MAJORS, ...cited])]
+    .filter(major => rangeIncludesMajor(range, major))
+    .sort((a, b) => a - b);
+}
+
+// Versions de Strapi supportées d'après le manifeste de la dernière version du paquet
+export function getSupportedStrapiVersions(manifest: any): { strapi_versions: number[]; strapi_range?: string } {
+  const range = manifest.peerDependencies?.['@strapi/strapi'] || manifest.dependencies?.['@strapi/strapi'];
+  if (range) {
+    return { strapi_versions: parseMajorVersions(range), strapi_range: range };
+  }
+
+  const dependencies = { ...manifest.devDependencies, ...manifest.dependencies, ...manifest.peerDependencies };
+  const majors = Object.entries(MAJOR_MARKER_PACKAGES)
+    .filter(([name]) => dependencies[name])
+    .map(([, major]) => major);
+  return { strapi_versions: [...new Set(majors)].sort((a, b) => a - b) };
+}
+
+export function toPluginInfo(manifest: any, lastPublished?: string): PluginInfo {
+  const npmUrl = npmPackageUrl(manifest.name);
+  return {
+    name: manifest.name,
+    description: manifest.description || '',
+    version: manifest.version,
+    ...getSupportedStrapiVersions(manifest),
+    ...(lastPublished && { last_published: lastPublished }),
+    docs_url: manifest.homepage || cleanRepositoryUrl(manifest.repository) || npmUrl,
+    npm_url: npmUrl,
+    ...(manifest.keywords?.length && { keywords: manifest.keywords }),
+  };
+}
+
+export function checkPluginCompatibility(plugin: PluginInfo, major?: number): PluginCompatibility {
+  if (major === undefined || plugin.strapi_versions.length === 0) {
+    return 'unknown';
+  }
+  // La plage brute décide aussi pour une majeure plus récente que celles connues
+  if (plugin.strapi_range && semver.validRange(plugin.strapi_range)) {
+    return rangeIncludesMajor(plugin.strapi_range, major) ? 'compatible' : 'incompatible';
+  }
+  return plugin.strapi_versions.includes(major) ? 'compatible' : 'incompatible';
+}
+
+export class NpmPluginCatalog implements PluginCatalog {
+  readonly name = 'npm';
+  private client: AxiosInstance;
+
+  constructor(registryUrl: string = DEFAULT_REGISTRY_URL, timeout: number = 10000) {
+    this.client = axios.create({
+      baseURL: registryUrl.replace(/\/+$/, ''),
+      headers: { 'Accept': 'application/json', 'User-Agent': 'Strapi-MCP-Server/1.0' },
+      timeout,
+    });
+  }
+
+  async search(query: string, limit: number): Promise<PluginInfo[]> {
+    const response = await this.request(() => this.client.get('/-/v1/search', {
+      params: { text: `keywords:strapi-plugin ${query}`, size: limit },
+    }));
+
+    // La recherche ne donne pas les peerDependencies : manifeste de la dernière version de chaque paquet
+    return Promise.all((response.data.objects || []).map(async (result: any) => {
+      const item = result.package;
+      const latest = await this.request(() => this.client.get(`/${this.encodeName(item.name)}/latest`))
+        .then(latestResponse => latestResponse.data)
+        .catch(() => item);
+      return toPluginInfo({ ...item, ...latest, homepage: latest.homepage || item.links?.homepage }, item.date);
+    }));
+  }
+
+  async get(name: string): Promise<PluginInfo | undefined> {
+    let packument: any;
+    try {
+      packument = (await this.request(() => this.client.get(`/${this.encodeName(name)}`))).data;
+    } catch (error: any) {
+      if (error.status === 404) return undefined;
+      throw error;
+    }
+
+    const latest = packument['dist-tags']?.latest;
+    const manifest = packument.versions?.[latest];
+    return manifest ? toPluginInfo({ ...manifest, description: manifest.description || packument.description }, packument.time?.[latest]) : undefined;
+  }
+
+  // Noms scopés : "@strapi/plugin-seo" -> "@strapi%2fplugin-seo"
+  private encodeName(name: string): string {
+    return name.replace('/', '%2f');
+  }
+
+  private async request<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error: any) {
+      const status = error.response?.status;
+      const wrapped: any = new Error(status
+        ? `npm registry error (${status})`
+        : `Network error: Unable to reach the npm registry at ${this.client.defaults.baseURL}`);
+      wrapped.status = status;
+      throw wrapped;
+    }
+  }
+}
+
+// Entrée de l'instantané : seuls name et version sont obligatoires
+const SnapshotPluginSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  version: z.string().min(1),
+  strapi_versions: z.array(z.number().int().positive()).optional(),
+  strapi_range: z.string().optional(),
+  last_published: z.string().optional(),
+  docs_url: z.string().url().optional(),
+  npm_url: z.string().url().optional(),
+  keywords: z.array(z.string()).optional(),
+});
+
+// Instantané JSON : { "generated_at": "...", "plugins": [PluginInfo...] } ou une liste
+export class JsonFilePluginCatalog implements PluginCatalog {
+  readonly name = 'file';
+  private plugins?: PluginInfo[];
+
+  constructor(public readonly filePath: string) {}
+
+  async search(query: string, limit: number): Promise<PluginInfo[]> {
+    const terms = query.toLowerCase().split(/[^a-z0-9@/-]+/).filter(term => term.length > 1);
+
+    return this.load()
+      .map(plugin => {
+        const name = plugin.name.toLowerCase();
+        const text = `${plugin.description} ${(plugin.keywords || []).join(' ')}`.toLowerCase();
+        const score = terms.reduce((sum, term) => sum + (name.includes(term) ? 3 : 0) + (text.includes(term) ? 1 : 0), 0);
+        return { plugin, score };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(result => result.plugin);
+  }
+
+  async get(name: string): Promise<PluginInfo | undefined> {
+    return this.load().find(plugin => plugin.name === name);
+  }
+
+  private load(): PluginInfo[] {
+    if (!this.plugins) {
+      let data: any;
+      try {
+        data = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+      } catch (error: any) {
+        throw new Error(`Cannot read plugin catalog ${this.filePath}: ${error.message}`);
+      }
+
+      const plugins = Array.isArray(data) ? data : data?.plugins;
+      if (!Array.isArray(plugins)) {
+        throw new Error(`Invalid plugin catalog ${this.filePath}: expected a list of plugins or a "plugins" list`);
+      }
+
+      // Une entrée invalide est ignorée (avec un avertissement) plutôt que de rendre tout l'instantané inutilisable
+      this.plugins = plugins.flatMap((entry, index) => {
+        const parsed = SnapshotPluginSchema.safeParse(entry);
+        if (!parsed.success) {
+          const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'entry'}: ${issue.message}`);
+          logger.warn(`[Plugins] Ignoring invalid plugin #${index + 1} in ${this.filePath}`, { issues: issues.join('; ') });
+          return [];
+        }
+
+        const plugin = parsed.data;
+        return [{
+          ...plugin,
+          description: plugin.description || '',
+          strapi_versions: plugin.strapi_versions || (plugin.strapi_range ? parseMajorVersions(plugin.strapi_range) : []),
+          npm_url: plugin.npm_url || npmPackageUrl(plugin.name),
+          docs_url: plugin.docs_url || npmPackageUrl(plugin.name),
+        }];
+      });
+    }
+    return this.plugins;
+  }
+}
+
+// plugins.catalog (STRAPI_PLUGIN_CATALOG) : registre npm (ou un miroir) ou instantané JSON
+export function createPluginCatalog(options: ServerConfig['plugins']): PluginCatalog {
+  return options.catalog === 'file'
+    ? new JsonFilePluginCatalog(options.catalog_file)
+    : new NpmPluginCatalog(options.registry_url);
+}
@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ResolvedStrapiVersion } from './strapi-version';
+
+export interface ProjectFacts {
+  strapi_version?: string;
+  node_version?: string;
+  database?: {
+    client: string;
+    source: string;
+    driver?: string;
+  };
+  plugins?: Array<{ name: string; version: string }>;
+  last_error?: {
+    log_file: string;
+    trace: string;
+  };
+}
+
+// Lecture de la fin du log seulement : les logs de production peuvent être énormes
+const LOG_TAIL_BYTES = 256 * 1024;
+const MAX_TRACE_LINES = 30;
+const MAX_TRACE_LENGTH = 4000;
+
+const DATABASE_DRIVERS: Record<string, string[]> = {
+  postgres: ['pg'],
+  mysql: ['mysql2', 'mysql'],
+  sqlite: ['better-sqlite3', 'sqlite3'],
+};
+
+async function readFile(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+async function readPackageJson(dir: string): Promise<any | undefined> {
+  const content = await readFile(path.join(dir, 'package.json'));
+  if (!content) return undefined;
+
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error(`Invalid package.json in ${dir}`);
+  }
+}
+
+// Version installée dans node_modules si possible, sinon la plage de package.json
+async function getInstalledVersion(root: string, name: string, range: string): Promise<string> {
+  const installed = await readFile(path.join(root, 'node_modules', name, 'package.json'));
+  try {
+    return installed ? JSON.parse(installed).version || range : range;
+  } catch {
+    return range;
+  }
+}
+
+async function detectNodeVersion(root: string, pkg: any): Promise<string | undefined> {
+  if (pkg?.engines?.node) {
+    return `${pkg.engines.node} (package.json engines)`;
+  }
+
+  for (const file of ['.nvmrc', '.node-version']) {
+    const content = (await readFile(path.join(root, file)))?.trim();
+    if (content) {
+      return `${content} (${file})`;
+    }
+  }
+  return undefined;
+}
+
+async function detectDatabase(root: string, dependencies: Record<string, string>): Promise<ProjectFacts['database']> {
+  for (const file of ['config/database.ts', 'config/database.js']) {
+    const content = await readFile(path.join(root, file));
+    if (!content) continue;
+
+    // client: 'postgres' ou client: env('DATABASE_CLIENT', 'sqlite')
+    const literal = content.match(/client\s*:\s*['"`]([\w-]+)['"`]/);
+    const fromEnv = content.match(/env\(\s*['"`]DATABASE_CLIENT['"`]\s*(?:,\s*['"`]([\w-]+)['"`])?\s*\)/);
+    // Seule la variable DATABASE_CLIENT est lue dans .env
+    const envClient = fromEnv
+      ? (await readFile(path.join(root, '.env')))?.match(/^DATABASE_CLIENT\s*=\s*['"]?([\w-]+)/m)?.[1]
+      : undefined;
+
+    const client = literal?.[1] || envClient || fromEnv?.[1];
+    if (!client) continue;
+
+    const source = literal ? file : envClient ? `.env DATABASE_CLIENT via ${file}` : `default of DATABASE_CLIENT in ${file}`;
+    const normalized = client === 'postgresql' ? 'postgres' : client === 'better-sqlite3' ? 'sqlite' : client;
+    const driverName = (DATABASE_DRIVERS[normalized] || []).find(name => dependencies[name]);
+
+    return {
+      client,
+      source,
+      ...(driverName && { driver: `${driverName} ${await getInstalledVersion(root, driverName, dependencies[driverName])}` }),
+    };
+  }
+  return undefined;
+}
+
+async function readLogTail(logFile: string): Promise<string> {
+  let handle: fs.FileHandle;
+  try {
+    handle = await fs.open(logFile, 'r');
+  } catch {
+    throw new Error(`Log file not found: ${logFile}`);
+  }
+
+  try {
+    const { size } = await handle.stat();
+    const length = Math.min(size, LOG_TAIL_BYTES);
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, size - length);
+    return buffer.toString('utf-8');
+  } finally {
+    await handle.close();
+  }
+}
+
+// Dernière erreur du log : la ligne d'erreur suivie de ses lignes "at ..."
+export function extractLastError(log: string): string | undefined {
+  const lines = log.replace(/\x1b\[[0-9;]*m/g, '').split('\n');
+  const isErrorLine = (line: string) => /\b\w*Error\b|\[error\]|\berror:/i.test(line) && !/^\s+at\s/.test(line);
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (!isErrorLine(lines[i])) continue;
+
+    const trace = [lines[i]];
+    for (let j = i + 1; j < lines.length && trace.length < MAX_TRACE_LINES; j++) {
+      if (!/^\s+(at\s|\.\.\.|\{|\}|[\w$]+:)/.test(lines[j])) break;
+      trace.push(lines[j]);
+    }
+
+    const text = trace.join('\n').trim();
+    return text.length > MAX_TRACE_LENGTH ? `${text.slice(0, MAX_TRACE_LENGTH)}…` : text;
+  }
+  return undefined;
+}
+
+export async function collectProjectFacts(options: {
+  projectPath?: string;
+  logFile?: string;
+  version?: ResolvedStrapiVersion;
+}): Promise<ProjectFacts> {
+  const facts: ProjectFacts = {};
+
+  if (options.version) {
+    facts.strapi_version = `${options.version.version} (${options.version.source})`;
+  }
+
+  if (options.projectPath) {
+    const root = path.resolve(options.projectPath);
+    const pkg = await readPackageJson(root);
+    const dependencies: Record<string, string> = { ...pkg?.devDependencies, ...pkg?.dependencies };
+
+    const nodeVersion = await detectNodeVersion(root, pkg);
+    if (nodeVersion) {
+      facts.node_version = nodeVersion;
+    }
+
+    const database = await detectDatabase(root, dependencies);
+    if (database) {
+      facts.database = database;
+    }
+
+    const pluginNames = Object.keys(dependencies)
+      .filter(name => name.startsWith('@strapi/plugin-') || /^(@[\w-]+\/)?strapi-plugin-/.test(name))
+      .sort();
+    if (pluginNames.length > 0) {
+      facts.plugins = await Promise.all(pluginNames.map(async name => ({
+        name,
+        version: await getInstalledVersion(root, name, dependencies[name]),
+      })));
+    }
+  }
+
+  if (options.logFile) {
+    const logFile = path.resolve(options.projectPath || '.', options.logFile);
+    const trace = extractLastError(await readLogTail(logFile));
+    if (trace) {
+      facts.last_error = { log_file: logFile, trace };
+    }
+  }
+
+  return facts;
+}
+
+// Contexte envoyé au fournisseur (les secrets sont masqués au moment de l'envoi)
+export function formatProjectFacts(facts: ProjectFacts): string | undefined {
+  const lines: string[] = [];
+
+  if (facts.strapi_version) lines.push(`Strapi version: ${facts.strapi_version}`);
+  if (facts.node_version) lines.push(`Node.js version: ${facts.node_version}`);
+  if (facts.database) {
+    lines.push(`Database: ${facts.database.client} (from ${facts.database.source})${facts.database.driver ? `, driver ${facts.database.driver}` : ''}`);
+  }
+  if (facts.plugins) {
+    lines.push(`Installed plugins: ${facts.plugins.map(plugin => `${plugin.name}@${plugin.version}`).join(', ')}`);
+  }
+  if (facts.last_error) {
+    lines.push(`Last error in ${path.basename(facts.last_error.log_file)}:\n${facts.last_error.trace}`);
+  }
+
+  return lines.length > 0 ? `Project facts:\n${lines.join('\n')}` : undefined;
+}
@@ -0,0 +1,245 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description?: string;
+  required?: boolean;
+  // Valeurs autorisées, vérifiées à l'appel
+  enum?: string[];
+}
+
+export interface PromptDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: PromptArgumentDefinition[];
+  // Texte avec {{argument}} et sections conditionnelles {{#argument}}...{{/argument}}
+  template: string;
+}
+
+export const BUILTIN_PROMPTS: PromptDefinition[] = [
+  {
+    name: 'strapi-troubleshoot',
+    title: 'Troubleshoot a Strapi issue',
+    description: 'Get step-by-step troubleshooting instructions for a Strapi issue or error.',
+    arguments: [
+      { name: 'issue_description', description: 'Detailed description of the issue', required: true },
+      { name: 'error_message', description: 'The exact error message if available' },
+      { name: 'strapi_version', description: 'Your Strapi version (e.g., "4.15.0", "5.0.0")' },
+    ],
+    template: 'I\'m experiencing this issue with Strapi: {{issue_description}}'
+      + '{{#error_message}}\n\nSpecific error message: "{{error_message}}"{{/error_message}}'
+      + '{{#strapi_version}}\n\nI\'m using Strapi version: {{strapi_version}}{{/strapi_version}}'
+      + '\n\nHow can I resolve this issue? Please provide step-by-step troubleshooting instructions and possible causes.',
+  },
+  {
+    name: 'strapi-best-practices',
+    title: 'Strapi best practices',
+    description: 'Get best practices and recommendations for a Strapi topic or feature.',
+    arguments: [
+      { name: 'topic', description: 'The Strapi topic or feature (e.g., "content types", "plugins", "deployment")', required: true },
+      { name: 'project_type', description: 'Type of project (e.g., "REST API", "GraphQL", "headless CMS")' },
+    ],
+    template: 'What are the best practices for {{topic}} in Strapi'
+      + '{{#project_type}} for {{project_type}} projects{{/project_type}}'
+      + '? Please provide detailed recommendations, examples, and common pitfalls to avoid.',
+  },
+  {
+    name: 'strapi-migrate-v4-to-v5',
+    title: 'Migrate from Strapi v4 to v5',
+    description: 'Get the migration steps from Strapi v4 to Strapi v5 for a feature or piece of code.',
+    arguments: [
+      { name: 'feature', description: 'The feature or API to migrate (e.g., "entityService calls", "lifecycle hooks", "REST responses")', required: true },
+      { name: 'current_code', description: 'The current Strapi v4 code to migrate' },
+    ],
+    template: 'I\'m migrating a Strapi v4 application to Strapi v5. How do I migrate {{feature}}?'
+      + '{{#current_code}}\n\nHere is my current Strapi v4 code:\n\n```\n{{current_code}}\n```{{/current_code}}'
+      + '\n\nPlease list the breaking changes, the equivalent Strapi v5 APIs, and the migration steps with code examples.',
+  },
+  {
+    name: 'strapi-plugin-scaffold',
+    title: 'Scaffold a Strapi plugin',
+    description: 'Get the structure and starter code for a new Strapi plugin.',
+    arguments: [
+      { name: 'plugin_name', description: 'Name of the plugin', required: true },
+      { name: 'description', description: 'What the plugin should do', required: true },
+      { name: 'language', description: 'Language of the plugin', enum: ['js', 'ts'] },
+      { name: 'strapi_version', description: 'Target Strapi version (e.g., "5")' },
+    ],
+    template: 'I want to create a Strapi plugin named "{{plugin_name}}" that {{description}}.'
+      + '{{#strapi_version}} It targets Strapi version {{strapi_version}}.{{/strapi_version}}'
+      + '{{#language}} The plugin is written in {{language}}.{{/language}}'
+      + '\n\nHow do I scaffold it? Please describe the plugin file structure, the register/bootstrap/destroy lifecycle, '
+      + 'and provide starter code for the server and admin parts.',
+  },
+  {
+    name: 'strapi-code-example',
+    title: 'Strapi code example',
+    description: 'Get a complete code snippet for a Strapi controller, service, policy, middleware, lifecycle hook, plugin register/bootstrap, etc.',
+    arguments: [
+      { name: 'kind', description: 'Kind of code (e.g., "controller", "policy", "plugin bootstrap")', required: true },
+      { name: 'description', description: 'What the code should do', required: true },
+      { name: 'language', description: 'Language of the snippet', enum: ['js', 'ts'] },
+      { name: 'file_path', description: 'File of the Strapi project the code goes in' },
+      { name: 'strapi_version', description: 'Target Strapi version (e.g., "5")' },
+    ],
+    template: 'Show me a complete Strapi {{kind}} that {{description}}.'
+      + '{{#strapi_version}} It targets Strapi version {{strapi_version}}.{{/strapi_version}}'
+      + '{{#language}} The code is written in {{language}}.{{/language}}'
+      + '{{#file_path}} The code goes in {{file_path}}.{{/file_path}}'
+      + '\n\nPlease give the full content of the file in a fenced code block with its language, followed by a short explanation.',
+  },
+  {
+    name: 'strapi-plugin-setup',
+    title: 'Set up a Strapi plugin',
+    description: 'Get the installation and configuration steps of a Strapi plugin.',
+    arguments: [
+      { name: 'plugin_name', description: 'npm package name of the plugin', required: true },
+      { name: 'use_case', description: 'What the plugin should be used for' },
+      { name: 'strapi_version', description: 'Target Strapi version (e.g., "5")' },
+    ],
+    template: 'How do I install and configure the "{{plugin_name}}" Strapi plugin'
+      + '{{#use_case}} to {{use_case}}{{/use_case}}?'
+      + '{{#strapi_version}} I\'m using Strapi version {{strapi_version}}.{{/strapi_version}}'
+      + '\n\nPlease list the installation command, the configuration in config/plugins, and any required permissions or rebuild steps.',
+  },
+];
+
+export function renderTemplate(template: string, values: Record<string, string | undefined>): string {
+  return template
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_match, name: string, section: string) =>
+      values[name] ? section : '')
+    .replace(/\{\{(\w+)\}\}/g, (_match, name: string) => values[name] ?? '');
+}
+
+export class PromptRegistry {
+  private prompts = new Map<string, PromptDefinition>();
+
+  constructor(prompts: PromptDefinition[] = BUILTIN_PROMPTS) {
+    prompts.forEach(prompt => this.register(prompt));
+  }
+
+  // Un prompt du même nom remplace le précédent (y compris les prompts intégrés)
+  register(prompt: PromptDefinition): void {
+    this.prompts.set(prompt.name, prompt);
+  }
+
+  list(): PromptDefinition[] {
+    return [...this.prompts.values()];
+  }
+
+  get(name: string): PromptDefinition | undefined {
+    return this.prompts.get(name);
+  }
+
+  // Prompt inconnu ou arguments invalides : erreur MCP InvalidParams
+  render(name: string, args: Record<string, string | undefined> = {}): string {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    for (const argument of prompt.arguments || []) {
+      const value = args[argument.name];
+      if (argument.required && !value) {
+        throw new McpError(ErrorCode.InvalidParams, `Missing required argument "${argument.name}" for prompt ${name}`);
+      }
+      if (value && argument.enum && !argument.enum.includes(value)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid value "${value}" for argument "${argument.name}" of prompt ${name}. Expected one of: ${argument.enum.join(', ')}`
+        );
+      }
+    }
+
+    return renderTemplate(prompt.template, args);
+  }
+}
+
+function validatePromptDefinition(prompt: any, index: number, filePath: string): PromptDefinition {
+  const where = `prompt #${index + 1} in ${filePath}`;
+
+  if (!prompt || typeof prompt !== 'object') {
+    throw new Error(`Invalid ${where}: expected an object`);
+  }
+  if (typeof prompt.name !== 'string' || !/^[\w-]+$/.test(prompt.name)) {
+    throw new Error(`Invalid ${where}: "name" must be a string of letters, digits, "-" or "_"`);
+  }
+  if (typeof prompt.template !== 'string' || !prompt.template.trim()) {
+    throw new Error(`Invalid ${where} (${prompt.name}): "template" must be a non-empty string`);
+  }
+  if (prompt.arguments !== undefined && !Array.isArray(prompt.arguments)) {
+    throw new Error(`Invalid ${where} (${prompt.name}): "arguments" must be a list`);
+  }
+
+  (prompt.arguments || []).forEach((argument: any) => {
+    if (!argument || typeof argument.name !== 'string') {
+      throw new Error(`Invalid ${where} (${prompt.name}): every argument needs a "name"`);
+    }
+    if (argument.enum !== undefined && !Array.isArray(argument.enum)) {
+      throw new Error(`Invalid ${where} (${prompt.name}): "enum" of argument "${argument.name}" must be a list`);
+    }
+  });
+
+  return prompt;
+}
+
+// Prompts d'équipe depuis un fichier YAML ou JSON : une liste, ou un objet { prompts: [...] }
+export function loadPromptsFile(filePath: string): PromptDefinition[] {
+  let content: string;
+  try {
+    content = readFileSync(filePath, 'utf-8');
+  } catch (error: any) {
+    throw new Error(`Cannot read prompts file ${filePath}: ${error.message}`);
+  }
+
+  let data: any;
+  try {
+    data = ['.yaml', '.yml'].includes(path.extname(filePath).toLowerCase())
+      ? parseYaml(content)
+      : JSON.parse(content);
+  } catch (error: any) {
+    throw new Error(`Invalid prompts file ${filePath}: ${error.message}`);
+  }
+
+  const prompts = Array.isArray(data) ? data : data?.prompts;
+  if (!Array.isArray(prompts)) {
+    throw new Error(`Invalid prompts file ${filePath}: expected a list of prompts or a "prompts" list`);
+  }
+
+  return prompts.map((prompt, index) => validatePromptDefinition(prompt, index, filePath));
+}
+
+function describeArguments(prompt: PromptDefinition): string[] {
+  return (prompt.arguments || [])
+    .map(argument => `${argument.name}${argument.required ? ' (required)' : ''}${argument.enum ? ` (one of: ${argument.enum.join(', ')})` : ''}`)
+    .sort();
+}
+
+// Un prompt intégré remplacé garde ses arguments : les outils le rendent avec ceux-ci
+function checkBuiltinOverride(prompt: PromptDefinition, filePath: string): PromptDefinition {
+  const builtin = BUILTIN_PROMPTS.find(candidate => candidate.name === prompt.name);
+  if (!builtin) return prompt;
+  if (!prompt.arguments) return { ...prompt, arguments: builtin.arguments };
+
+  if (describeArguments(prompt).join('\n') !== describeArguments(builtin).join('\n')) {
+    throw new Error(
+      `Invalid prompts file ${filePath}: "${prompt.name}" overrides a built-in prompt and must keep its arguments: ${describeArguments(builtin).join(', ')}`
+    );
+  }
+  return prompt;
+}
+
+// Prompts intégrés, puis ceux de prompts_file (STRAPI_MCP_PROMPTS_FILE)
+export function createPromptRegistry(promptsFile?: string): PromptRegistry {
+  const registry = new PromptRegistry();
+
+  if (promptsFile) {
+    loadPromptsFile(promptsFile).forEach(prompt => registry.register(checkBuiltinOverride(prompt, promptsFile)));
+  }
+
+  return registry;
+}
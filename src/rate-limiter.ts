@@ -0,0 +1,206 @@
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  shouldRetry: (error: any) => boolean;
+  getRetryAfterMs?: (error: any) => number | undefined;
+  describeError?: (error: any) => string;
+}
+
+export interface RetryAttempt {
+  attempt: number;
+  delayMs: number;
+  reason: string;
+}
+
+export class RetryExhaustedError extends Error {
+  constructor(public lastError: Error, public attempts: RetryAttempt[]) {
+    const history = attempts
+      .map(a => `#${a.attempt} ${a.reason}, waited ${(a.delayMs / 1000).toFixed(1)}s`)
+      .join('; ');
+    super(`${lastError.message} (gave up after ${attempts.length + 1} attempts — retries: ${history})`);
+    this.name = 'RetryExhaustedError';
+  }
+}
+
+export class AbortError extends Error {
+  constructor(message: string = 'Request cancelled by the client') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+// Attente interrompue par l'AbortSignal
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Token bucket : `limit` requêtes par minute, les appels en excès sont mis en file d'attente
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Array<{ resolve: () => void; reject: (error: Error) => void; signal?: AbortSignal }> = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(private limitPerMinute: number) {
+    this.tokens = limitPerMinute;
+  }
+
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter = { resolve, reject, signal };
+      this.queue.push(waiter);
+
+      signal?.addEventListener('abort', () => {
+        const index = this.queue.indexOf(waiter);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(new AbortError());
+        }
+      }, { once: true });
+
+      this.drain();
+    });
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const refillRate = this.limitPerMinute / 60000;
+    this.tokens = Math.min(this.limitPerMinute, this.tokens + (now - this.lastRefill) * refillRate);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.queue.shift()!.resolve();
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      const waitMs = Math.ceil((1 - this.tokens) * 60000 / this.limitPerMinute);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, waitMs);
+    }
+  }
+}
+
+// Limite le nombre d'appels exécutés en parallèle
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+
+  constructor(private maxConcurrent: number) {}
+
+  async run<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      throw new AbortError();
+    }
+    if (this.active < this.maxConcurrent) {
+      this.active += 1;
+    } else {
+      await this.waitForSlot(signal);
+    }
+
+    try {
+      return await fn();
+    } finally {
+      this.release();
+    }
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  // Attente retirée de la file si la requête est annulée
+  private waitForSlot(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const waiter = { resolve, reject };
+      this.queue.push(waiter);
+
+      signal?.addEventListener('abort', () => {
+        const index = this.queue.indexOf(waiter);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(new AbortError());
+        }
+      }, { once: true });
+    });
+  }
+
+  // La place libérée passe directement au premier en attente : active ne baisse pas entre-temps
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next.resolve();
+    } else {
+      this.active -= 1;
+    }
+  }
+}
+
+// Backoff exponentiel avec jitter, en respectant Retry-After quand le serveur le fournit
+export async function retryWithBackoff<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 30000;
+  const attempts: RetryAttempt[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error: any) {
+      const retryAfterMs = options.getRetryAfterMs?.(error);
+      // Un Retry-After plus long que le délai maximum n'est pas attendu : on abandonne
+      const tooLong = retryAfterMs !== undefined && retryAfterMs > maxDelayMs;
+
+      if (options.signal?.aborted || attempt > options.retries || tooLong || !options.shouldRetry(error)) {
+        if (attempts.length > 0 && !options.signal?.aborted) {
+          throw new RetryExhaustedError(error, attempts);
+        }
+        throw error;
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delayMs = retryAfterMs !== undefined
+        ? retryAfterMs + Math.random() * baseDelayMs / 2
+        : backoff / 2 + Math.random() * backoff / 2;
+
+      attempts.push({
+        attempt,
+        delayMs,
+        reason: options.describeError?.(error) ?? (error.message || String(error)),
+      });
+
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
@@ -0,0 +1,229 @@
+import axios, { AxiosInstance } from 'axios';
+import { CacheStore, JsonFileStore, MemoryLRUStore } from './cache';
+import { ServerConfig } from './config';
+import { DocsSource } from './docs-provider';
+import { logger } from './logger';
+
+// État d'un lien vérifié : "moved" porte l'URL de destination de la redirection
+export interface LinkStatus {
+  status: 'ok' | 'moved' | 'dead';
+  location?: string;
+}
+
+export interface ProcessedSource extends DocsSource {
+  link_status?: 'ok' | 'moved' | 'unknown';
+  // URL donnée par le fournisseur quand le lien a été remplacé par sa redirection
+  moved_from?: string;
+}
+
+const MAX_SNIPPET_LENGTH = 200;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const DEAD_STATUSES = new Set([404, 410]);
+// Mots trop courants pour départager les sources
+const STOP_WORDS = new Set([
+  'and', 'are', 'can', 'does', 'for', 'from', 'how', 'into', 'the', 'this', 'that', 'use', 'using',
+  'what', 'when', 'where', 'which', 'why', 'with', 'you', 'your', 'strapi',
+]);
+
+// https://docs.strapi.io/cms/api/rest/#filters -> https://docs.strapi.io/cms/api/rest
+export function canonicalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+    return parsed.toString().replace(/\/$/, '');
+  } catch {
+    return url.split('#')[0].replace(/\/+$/, '');
+  }
+}
+
+// "Page | Section" -> "Page - Section", "Page | Page" -> "Page"
+export function cleanSourceTitle(title: string | undefined): string {
+  if (!title) return 'Documentation';
+  if (!title.includes('|')) return title;
+
+  const [pageTitle, sectionTitle] = title.split('|').map(part => part.trim());
+  return sectionTitle && sectionTitle !== pageTitle ? `${pageTitle} - ${sectionTitle}` : pageTitle;
+}
+
+// Extrait court sur une ligne, coupé à la fin d'un mot
+export function toSnippetExcerpt(snippet: string | undefined, maxLength: number = MAX_SNIPPET_LENGTH): string {
+  const text = (snippet || '')
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/^#+\s*/gm, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > maxLength / 2 ? cut.lastIndexOf(' ') : maxLength).trim()}…`;
+}
+
+function queryTerms(query: string): string[] {
+  return [...new Set(query.toLowerCase().split(/[^a-z0-9]+/))].filter(term => term.length > 2 && !STOP_WORDS.has(term));
+}
+
+// Sources sans doublons (URL canonique), dans l'ordre du fournisseur ; les doublons comptent comme citations
+// positions : numéros [n] de la source dans la réponse du fournisseur, réunis quand deux sources fusionnent
+export function dedupeSources(
+  sources: Array<ProcessedSource & { citations?: number; positions?: number[] }>
+): Array<ProcessedSource & { citations: number; positions: number[] }> {
+  const unique = new Map<string, ProcessedSource & { citations: number; positions: number[] }>();
+
+  for (const source of sources) {
+    if (!source.url || !/^https?:\/\//.test(source.url)) continue;
+
+    const key = canonicalizeUrl(source.url);
+    const existing = unique.get(key);
+    if (existing) {
+      existing.citations += source.citations || 1;
+      existing.positions.push(...(source.positions || []));
+      existing.snippet = existing.snippet || source.snippet;
+    } else {
+      unique.set(key, {
+        ...source,
+        title: cleanSourceTitle(source.title),
+        snippet: source.snippet || '',
+        citations: source.citations || 1,
+        positions: [...(source.positions || [])],
+      });
+    }
+  }
+
+  return [...unique.values()];
+}
+
+// Renvoi [n] hors code, ni indice (items[1]) ni lien Markdown ([1](url)), avec l'espace qui le précède
+const CITATION_PATTERN = /\s?(?<!\w)\[(\d+)\](?!\()/g;
+
+// Renumérote les renvois [n] d'une réponse ; un renvoi vers une source retirée (lien mort) est supprimé,
+// deux renvois devenus identiques ([2][3] -> [1][1]) n'en font plus qu'un
+export function renumberCitations(answer: string, numbers: Map<number, number | undefined>): string {
+  const renumber = (text: string) => text.replace(CITATION_PATTERN, (citation, number: string) => {
+    if (!numbers.has(Number(number))) return citation;
+    const target = numbers.get(Number(number));
+    return target === undefined ? '' : citation.replace(`[${number}]`, `[${target}]`);
+  }).replace(/(\[\d+\])(?:\s?\1)+/g, '$1');
+
+  // Les parties impaires sont des blocs ou extraits de code : laissés tels quels
+  return answer
+    .split(/(```[\s\S]*?(?:```|$)|`[^`\n]*`)/)
+    .map((part, index) => index % 2 === 1 ? part : renumber(part))
+    .join('');
+}
+
+// Les termes de la question dans le titre comptent double ; à score égal, l'ordre du fournisseur est gardé
+export function rankSources<T extends DocsSource & { citations?: number }>(sources: T[], query?: string): T[] {
+  const terms = query ? queryTerms(query) : [];
+  const score = (source: T) => {
+    const title = source.title.toLowerCase();
+    const snippet = (source.snippet || '').toLowerCase();
+    return terms.reduce((sum, term) => sum + (title.includes(term) ? 2 : 0) + (snippet.includes(term) ? 1 : 0), 0)
+      + (source.citations || 1) - 1;
+  };
+
+  return sources
+    .map((source, index) => ({ source, index, score: score(source) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ source }) => source);
+}
+
+// Vérification des liens par une requête HEAD, résultats gardés dans un cache (sur disque par défaut)
+export class LinkChecker {
+  private client: AxiosInstance;
+
+  constructor(private store: CacheStore<LinkStatus>, private ttlSeconds: number = 86400, timeout: number = 3000) {
+    this.client = axios.create({
+      timeout,
+      maxRedirects: 0,
+      validateStatus: () => true,
+      headers: { 'User-Agent': 'Strapi-MCP-Server/1.0' },
+    });
+  }
+
+  // undefined si le lien n'a pas pu être vérifié (réseau, 405, 5xx...) : la source est gardée telle quelle
+  async check(url: string): Promise<LinkStatus | undefined> {
+    const key = canonicalizeUrl(url);
+    const cached = await this.store.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    let result: LinkStatus | undefined;
+    try {
+      const response = await this.client.head(key);
+      const location = response.headers.location;
+
+      if (REDIRECT_STATUSES.has(response.status) && location) {
+        const target = new URL(location, key).toString();
+        // Une redirection vers la même page (ex. "/" final) n'est pas un déplacement
+        result = canonicalizeUrl(target) === key ? { status: 'ok' } : { status: 'moved', location: target };
+      } else if (DEAD_STATUSES.has(response.status)) {
+        result = { status: 'dead' };
+      } else if (response.status >= 200 && response.status < 300) {
+        result = { status: 'ok' };
+      }
+    } catch (error: any) {
+      logger.debug('[Sources] Link check failed', { url: key, error: error.message });
+    }
+
+    if (result) {
+      const now = Date.now();
+      await this.store.set(key, { value: result, createdAt: now, expiresAt: now + this.ttlSeconds * 1000 });
+    }
+    return result;
+  }
+}
+
+// Post-traitement commun des sources de toutes les réponses : doublons, liens morts ou déplacés, classement
+export class SourceProcessor {
+  constructor(private linkChecker?: LinkChecker) {}
+
+  async process(sources: DocsSource[], query?: string): Promise<ProcessedSource[]> {
+    return (await this.rank(sources, query)).map(({ citations: _citations, positions: _positions, ...source }) => source);
+  }
+
+  // Sources d'une réponse : les renvois [1], [2]... du texte suivent le nouvel ordre des sources
+  async processAnswer<T extends { answer: string; sources: DocsSource[] }>(answer: T, query?: string): Promise<T & { sources: ProcessedSource[] }> {
+    const ranked = await this.rank(answer.sources, query);
+    const numbers = new Map<number, number | undefined>(answer.sources.map((_source, index) => [index + 1, undefined]));
+    ranked.forEach((source, index) => source.positions.forEach(position => numbers.set(position, index + 1)));
+
+    return {
+      ...answer,
+      answer: renumberCitations(answer.answer, numbers),
+      sources: ranked.map(({ citations: _citations, positions: _positions, ...source }) => source),
+    };
+  }
+
+  private async rank(sources: DocsSource[], query?: string): Promise<Array<ProcessedSource & { citations: number; positions: number[] }>> {
+    let processed = dedupeSources(sources.map((source, index) => ({ ...source, positions: [index + 1] })));
+
+    if (this.linkChecker) {
+      const checked = await Promise.all(processed.map(async source => {
+        const link = await this.linkChecker!.check(source.url);
+        if (link?.status === 'dead') return undefined;
+        if (link?.status === 'moved') {
+          return { ...source, url: link.location!, moved_from: source.url, link_status: 'moved' as const };
+        }
+        return { ...source, link_status: link ? 'ok' as const : 'unknown' as const };
+      }));
+      // Deux liens redirigés vers la même page n'en font plus qu'un
+      processed = dedupeSources(checked.filter((source): source is NonNullable<typeof source> => !!source));
+    }
+
+    return rankSources(processed, query);
+  }
+}
+
+// sources.link_check (SOURCE_LINK_CHECK) : liens vérifiés, avec un cache en mémoire ou sur disque
+export function createSourceProcessor(options: ServerConfig['sources']): SourceProcessor {
+  if (!options.link_check) {
+    return new SourceProcessor();
+  }
+
+  const store = options.link_cache === 'memory'
+    ? new MemoryLRUStore<LinkStatus>(2000)
+    : new JsonFileStore<LinkStatus>(options.link_cache_file, 2000);
+  return new SourceProcessor(new LinkChecker(store, options.link_cache_ttl_seconds, options.link_timeout_ms));
+}
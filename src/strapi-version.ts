@@ -0,0 +1,161 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export type StrapiVersionSource =
+  | 'argument'
+  | 'package-lock.json'
+  | 'yarn.lock'
+  | 'pnpm-lock.yaml'
+  | 'package.json';
+
+export interface ResolvedStrapiVersion {
+  version: string;
+  major: number;
+  source: StrapiVersionSource;
+}
+
+export type VersionMismatchMode = 'flag' | 'filter';
+
+const STRAPI_PACKAGE = '@strapi/strapi';
+
+// Hôtes de documentation par version majeure ; docs.strapi.io sert la dernière version
+const DOCS_HOST_MAJOR_VERSIONS: Record<string, number> = {
+  'docs-v3.strapi.io': 3,
+  'docs-v4.strapi.io': 4,
+  'docs.strapi.io': 5,
+};
+
+export function parseMajorVersion(version: string): number | undefined {
+  const match = version.match(/(\d+)/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+// Version explicite en priorité, sinon détection depuis le projet
+export async function resolveStrapiVersion(args: {
+  strapi_version?: string;
+  project_path?: string;
+}): Promise<ResolvedStrapiVersion | undefined> {
+  if (args.strapi_version) {
+    const major = parseMajorVersion(args.strapi_version);
+    if (major === undefined) {
+      throw new Error(`Invalid strapi_version "${args.strapi_version}". Expected a version like "4.15.0" or "5".`);
+    }
+    return { version: args.strapi_version.replace(/^[v^~=\s]+/, ''), major, source: 'argument' };
+  }
+
+  if (args.project_path) {
+    return detectStrapiVersion(args.project_path);
+  }
+
+  return undefined;
+}
+
+export async function detectStrapiVersion(projectPath: string): Promise<ResolvedStrapiVersion> {
+  const root = path.resolve(projectPath);
+
+  try {
+    await fs.access(root);
+  } catch {
+    throw new Error(`Project path not found: ${root}`);
+  }
+
+  // Les lockfiles donnent la version installée ; ils peuvent être à la racine d'un monorepo
+  let dir = root;
+  while (true) {
+    const fromLockfile = await readFromLockfiles(dir);
+    if (fromLockfile) {
+      return fromLockfile;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+
+  const fromPackageJson = await readFromPackageJson(root);
+  if (fromPackageJson) {
+    return fromPackageJson;
+  }
+
+  throw new Error(`No ${STRAPI_PACKAGE} dependency found in ${root}. Pass strapi_version explicitly.`);
+}
+
+async function readFile(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+function toResolved(version: string | undefined, source: StrapiVersionSource): ResolvedStrapiVersion | undefined {
+  const major = version ? parseMajorVersion(version) : undefined;
+  return version && major !== undefined ? { version, major, source } : undefined;
+}
+
+async function readFromLockfiles(dir: string): Promise<ResolvedStrapiVersion | undefined> {
+  const packageLock = await readFile(path.join(dir, 'package-lock.json'));
+  if (packageLock) {
+    try {
+      const lock = JSON.parse(packageLock);
+      const version = lock.packages?.[`node_modules/${STRAPI_PACKAGE}`]?.version
+        || lock.dependencies?.[STRAPI_PACKAGE]?.version;
+      const resolved = toResolved(version, 'package-lock.json');
+      if (resolved) return resolved;
+    } catch {
+      // Lockfile illisible : on essaie les autres sources
+    }
+  }
+
+  const yarnLock = await readFile(path.join(dir, 'yarn.lock'));
+  if (yarnLock) {
+    // Yarn 1 : `version "5.0.0"`, Yarn Berry : `version: 5.0.0`
+    const match = yarnLock.match(/^"?@strapi\/strapi@[^\n]*:\n\s+version:? "?([^"\n]+)"?/m);
+    const resolved = toResolved(match?.[1], 'yarn.lock');
+    if (resolved) return resolved;
+  }
+
+  const pnpmLock = await readFile(path.join(dir, 'pnpm-lock.yaml'));
+  if (pnpmLock) {
+    const patterns = [
+      // lockfile v6+ : specifier puis version
+      /['"]?@strapi\/strapi['"]?:\s*\n\s+specifier:[^\n]*\n\s+version:\s*['"]?(\d[^\s('"]*)/,
+      // lockfile v5 : `'@strapi/strapi': 4.15.0`
+      /['"]?@strapi\/strapi['"]?:\s*['"]?(\d[^\s('"]*)/,
+      // clés de la section packages
+      /\/?@strapi\/strapi[@/](\d[^\s(:'"]*)/,
+    ];
+    for (const pattern of patterns) {
+      const resolved = toResolved(pnpmLock.match(pattern)?.[1], 'pnpm-lock.yaml');
+      if (resolved) return resolved;
+    }
+  }
+
+  return undefined;
+}
+
+async function readFromPackageJson(dir: string): Promise<ResolvedStrapiVersion | undefined> {
+  const content = await readFile(path.join(dir, 'package.json'));
+  if (!content) return undefined;
+
+  try {
+    const pkg = JSON.parse(content);
+    const range = pkg.dependencies?.[STRAPI_PACKAGE] || pkg.devDependencies?.[STRAPI_PACKAGE];
+    return toResolved(range, 'package.json');
+  } catch {
+    throw new Error(`Invalid package.json in ${dir}`);
+  }
+}
+
+export function getDocsMajorVersion(url: string): number | undefined {
+  try {
+    return DOCS_HOST_MAJOR_VERSIONS[new URL(url).hostname];
+  } catch {
+    return undefined;
+  }
+}
+
+export function getDocsBaseUrl(major: number): string | undefined {
+  const host = Object.keys(DOCS_HOST_MAJOR_VERSIONS).find(key => DOCS_HOST_MAJOR_VERSIONS[key] === major);
+  return host ? `https://${host}` : undefined;
+}
@@ -0,0 +1,234 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { CODE_EXAMPLE_KIND_NAMES } from './code-examples';
+import { DOC_SECTION_NAMES } from './doc-sections';
+
+// Limite de Kapa sur la taille d'une question
+export const MAX_QUERY_LENGTH = 15000;
+// Questions par appel de ask_strapi_docs_batch
+export const MAX_BATCH_QUESTIONS = 10;
+
+const requiredText = (description: string, max: number = MAX_QUERY_LENGTH) =>
+  z.string().trim().min(1, 'Must not be empty').max(max).describe(description);
+
+const strapiVersion = z.string().trim().min(1)
+  .describe('Your Strapi version (e.g., "4.15.0", "5"). Takes precedence over project_path')
+  .optional();
+
+const projectPath = z.string().trim().min(1)
+  .describe('Path of your Strapi project, used to detect the Strapi version from package.json or the lockfile')
+  .optional();
+
+const sections = z.array(z.enum(DOC_SECTION_NAMES as [string, ...string[]]))
+  .describe('Optional documentation sections to search in (e.g., ["cloud"] for Strapi Cloud questions). Use list_doc_sections to see them')
+  .optional();
+
+// Les noms de projets viennent de la configuration : l'enum est ajoutée à la génération du schéma JSON
+const project = (description: string = 'Optional Kapa project to ask. Follow-ups and ratings go to the project of the original answer') =>
+  z.string().trim().min(1).describe(description).optional();
+
+const format = z.enum(['markdown', 'plain', 'json'])
+  .describe('Rendering of the text content: "markdown" (default), "plain" text or "json" (same data as structuredContent)')
+  .optional();
+
+// Entrées des outils : source unique pour le schéma annoncé (tools/list) et la validation à l'appel
+export const TOOL_INPUT_SCHEMAS = {
+  query_strapi_docs: z.object({
+    query: requiredText(`The question or topic you want to search in Strapi documentation (max ${MAX_QUERY_LENGTH} characters)`),
+    context: z.string().max(MAX_QUERY_LENGTH)
+      .describe('Optional context about your current development situation (e.g., version, specific feature)')
+      .optional(),
+    thread_id: z.string().trim().min(1)
+      .describe('Optional thread ID from a previous answer to ask a follow-up question in the same conversation')
+      .optional(),
+    strapi_version: strapiVersion,
+    project_path: projectPath,
+    sections,
+    project: project(),
+    format,
+  }),
+  continue_strapi_thread: z.object({
+    thread_id: requiredText('The Thread ID returned by a previous answer', 200),
+    query: requiredText('The follow-up question (e.g., "and how do I do that in v5?")'),
+    strapi_version: strapiVersion,
+    project_path: projectPath,
+    sections,
+    project: project(),
+    format,
+  }),
+  ask_strapi_docs_batch: z.object({
+    questions: z.array(requiredText(`A question to search in Strapi documentation (max ${MAX_QUERY_LENGTH} characters)`))
+      .min(1)
+      .max(MAX_BATCH_QUESTIONS)
+      .describe(`The questions to ask, answered in parallel (max ${MAX_BATCH_QUESTIONS})`),
+    context: z.string().max(MAX_QUERY_LENGTH)
+      .describe('Optional context shared by every question (e.g., the feature under review)')
+      .optional(),
+    strapi_version: strapiVersion,
+    project_path: projectPath,
+    sections,
+    project: project('Optional Kapa project to ask'),
+    format,
+  }),
+  test_kapa_connection: z.object({
+    project: project('Optional Kapa project to test (default: all projects)'),
+  }),
+  get_strapi_best_practices: z.object({
+    topic: requiredText('The Strapi topic or feature you want best practices for (e.g., "content types", "plugins", "deployment")', 500),
+    project_type: z.string().trim().max(500)
+      .describe('Type of project (e.g., "REST API", "GraphQL", "headless CMS")')
+      .optional(),
+    strapi_version: strapiVersion,
+    project_path: projectPath,
+    sections,
+    project: project(),
+    format,
+  }),
+  troubleshoot_strapi_issue: z.object({
+    issue_description: requiredText('Detailed description of the issue or error you are experiencing'),
+    error_message: z.string().max(MAX_QUERY_LENGTH)
+      .describe('The exact error message if available')
+      .optional(),
+    strapi_version: strapiVersion,
+    project_path: z.string().trim().min(1)
+      .describe('Path of your Strapi project, used to detect the Strapi, Node.js and database versions and the installed plugins')
+      .optional(),
+    log_file: z.string().trim().min(1)
+      .describe('Optional log file (absolute or relative to project_path) to extract the last error stack trace from')
+      .optional(),
+    sections,
+    project: project(),
+    format,
+  }),
+  get_strapi_code_example: z.object({
+    kind: z.enum(CODE_EXAMPLE_KIND_NAMES as [string, ...string[]])
+      .describe('Kind of code to write: controller, service, route, policy, middleware, lifecycle-hook, plugin-register, plugin-bootstrap or cron-task'),
+    description: requiredText('What the code should do (e.g., "only returns the articles of the logged-in author")', 2000),
+    name: z.string().trim().regex(/^[a-z0-9][a-z0-9-]*$/i, 'Expected a name like "article" or "my-plugin"')
+      .describe('Optional API, policy, middleware or plugin name used in the target file path (e.g., "article")')
+      .optional(),
+    language: z.enum(['js', 'ts'])
+      .describe('Language of the snippet (default: "ts" if project_path has a tsconfig.json, otherwise "js")')
+      .optional(),
+    strapi_version: strapiVersion,
+    project_path: projectPath,
+    sections,
+    project: project(),
+    format,
+  }),
+  plan_strapi_migration: z.object({
+    project_path: requiredText('Path of the Strapi v4 project (or of a front-end app) to scan', 1000),
+    project: project(),
+    format,
+  }),
+  find_strapi_plugin: z.object({
+    query: requiredText('The problem the plugin should solve or keywords (e.g., "SEO metadata", "import CSV")', 500),
+    limit: z.number().int().min(1).max(20)
+      .describe('Maximum number of plugins to return (default 5, max 20)')
+      .optional(),
+    strapi_version: strapiVersion,
+    project_path: projectPath,
+    project: project(),
+    format,
+  }),
+  get_strapi_plugin_info: z.object({
+    name: requiredText('npm package name of the plugin (e.g., "@strapi/plugin-seo", "strapi-plugin-import-export-entries")', 214),
+    strapi_version: strapiVersion,
+    project_path: projectPath,
+    project: project(),
+    format,
+  }),
+  search_strapi_docs_local: z.object({
+    query: requiredText('Keywords or question to search in the Strapi documentation', 1000),
+    limit: z.number().int().min(1).max(20)
+      .describe('Maximum number of sections to return (default 5, max 20)')
+      .optional(),
+    sections,
+    format,
+  }),
+  list_doc_sections: z.object({
+    project: project('Optional Kapa project whose source mapping to show (default: the default project)'),
+  }),
+  rate_strapi_answer: z.object({
+    question_answer_id: requiredText('The Question answer ID returned by a previous answer', 200),
+    reaction: z.enum(['upvote', 'downvote'])
+      .describe('Whether the answer was helpful ("upvote") or wrong/unhelpful ("downvote")'),
+    comment: z.string().max(5000)
+      .describe('Optional comment explaining what was wrong or missing')
+      .optional(),
+    project: project(),
+  }),
+  cache_stats: z.object({}),
+  clear_cache: z.object({}),
+  usage_report: z.object({
+    window: z.string().trim().regex(/^\d+\s*[mhd]$/i, 'Expected a duration like "30m", "24h" or "7d"')
+      .describe('Time window to summarize, e.g. "30m", "24h" (default) or "7d"')
+      .optional(),
+    format,
+  }),
+};
+
+export type ToolName = keyof typeof TOOL_INPUT_SCHEMAS;
+
+export type ToolArguments<N extends ToolName> = z.infer<typeof TOOL_INPUT_SCHEMAS[N]>;
+
+// Appel d'outil validé : le nom de l'outil donne le type de ses arguments
+export type ToolCall = { [N in ToolName]: { name: N; args: ToolArguments<N> } }[ToolName];
+
+export function isToolName(name: string): name is ToolName {
+  return Object.prototype.hasOwnProperty.call(TOOL_INPUT_SCHEMAS, name);
+}
+
+// Outils qui s'adressent à un projet Kapa (argument project)
+export function acceptsProject(name: ToolName): boolean {
+  return 'project' in TOOL_INPUT_SCHEMAS[name].shape;
+}
+
+// Schéma JSON annoncé dans tools/list, avec les projets configurés
+export function toInputJsonSchema(name: ToolName, projectNames: string[]): Record<string, any> {
+  const { $schema: _schema, ...schema } = zodToJsonSchema(TOOL_INPUT_SCHEMAS[name], { $refStrategy: 'none' }) as Record<string, any>;
+
+  if (schema.properties?.project) {
+    schema.properties.project = { ...schema.properties.project, enum: projectNames };
+  }
+  return { ...schema, required: schema.required || [] };
+}
+
+function formatPath(path: Array<string | number>): string {
+  return path.length > 0 ? path.join('.') : 'arguments';
+}
+
+// Erreur MCP InvalidParams avec un message par champ
+function invalidParams(name: string, issues: Array<{ path: string; message: string }>): McpError {
+  return new McpError(
+    ErrorCode.InvalidParams,
+    `Invalid arguments for ${name}: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`,
+    { issues }
+  );
+}
+
+export function parseToolArguments<N extends ToolName>(name: N, args: unknown, projectNames: string[]): ToolArguments<N> {
+  const result = TOOL_INPUT_SCHEMAS[name].safeParse(args ?? {});
+  if (!result.success) {
+    throw invalidParams(name, result.error.issues.map(issue => ({ path: formatPath(issue.path), message: issue.message })));
+  }
+
+  const data = result.data as ToolArguments<N> & { project?: string };
+  if (data.project !== undefined && !projectNames.includes(data.project)) {
+    throw invalidParams(name, [{
+      path: 'project',
+      message: `Unknown project "${data.project}". Expected one of: ${projectNames.join(', ')}`,
+    }]);
+  }
+  return data;
+}
+
+// Le schéma de l'outil a validé les arguments : le couple nom/arguments est cohérent
+export function parseToolCall(name: ToolName, args: unknown, projectNames: string[]): ToolCall {
+  return { name, args: parseToolArguments(name, args, projectNames) } as ToolCall;
+}
+
+export function unknownTool(name: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+}
@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { MockKapaServer, loadFixture } from './support/mock-kapa-server';
+import { TestClient, connectTestClient, textOf } from './support/test-client';
+
+describe('answer rendering', () => {
+  let kapa: MockKapaServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    kapa = await new MockKapaServer().start();
+    mcp = await connectTestClient(kapa);
+  });
+
+  beforeEach(() => kapa.reset());
+
+  after(async () => {
+    await mcp.close();
+    await kapa.close();
+  });
+
+  it('renders the recorded answer with cleaned source titles', async () => {
+    const result: any = await mcp.client.callTool({
+      name: 'query_strapi_docs',
+      arguments: { query: 'How do I create a collection type?' },
+    });
+    const text = textOf(result);
+
+    assert.equal(result.isError, undefined);
+    assert.ok(text.startsWith(loadFixture('chat').answer));
+    assert.match(text, /\*\*📚 Sources:\*\*/);
+    // "Page | Section" devient "Page - Section", "Page | Page" devient "Page"
+    assert.match(text, /1\. \[Content-type Builder - Strapi 5 Documentation\]\(https:\/\/docs\.strapi\.io\/cms\/features\/content-type-builder\)/);
+    assert.match(text, /2\. \[REST API\]\(https:\/\/docs\.strapi\.io\/cms\/api\/rest\)/);
+    assert.match(text, /3\. \[Models\]\(https:\/\/docs\.strapi\.io\/cms\/backend-customization\/models\)/);
+    assert.doesNotMatch(text, /Internal note/);
+    assert.doesNotMatch(text, /uncertain/);
+    assert.match(text, /Thread ID: thread-recorded-1/);
+    assert.match(text, /Question answer ID: qa-recorded-1/);
+
+    assert.deepEqual(result.structuredContent.sources.map((source: any) => source.title), [
+      'Content-type Builder - Strapi 5 Documentation',
+      'REST API',
+      'Models',
+    ]);
+    assert.equal(result.structuredContent.is_uncertain, false);
+    assert.equal(result.structuredContent.provider, 'kapa');
+  });
+
+  it('sends the query to the project chat endpoint with the API key', async () => {
+    await mcp.client.callTool({
+      name: 'query_strapi_docs',
+      arguments: { query: 'What is a lifecycle hook?', context: 'Strapi 5 blog' },
+    });
+
+    assert.equal(kapa.requests.length, 1);
+    const [request] = kapa.requests;
+    assert.equal(request.method, 'POST');
+    assert.equal(request.url, '/query/v1/projects/test-project/chat/');
+    assert.equal(request.headers['x-api-key'], 'test-api-key');
+    assert.match(request.body.query, /Question: What is a lifecycle hook\?/);
+  });
+
+  it('renders plain text without markdown', async () => {
+    const result: any = await mcp.client.callTool({
+      name: 'query_strapi_docs',
+      arguments: { query: 'How do I create a collection type?', format: 'plain' },
+    });
+    const text = textOf(result);
+
+    assert.match(text, /\n\nSources:\n1\. Content-type Builder - Strapi 5 Documentation - https:\/\/docs\.strapi\.io\/cms\/features\/content-type-builder/);
+    assert.doesNotMatch(text, /\*\*|📚/);
+  });
+
+  it('adds the uncertainty note of each tool to uncertain answers', async () => {
+    const notes: Array<[string, Record<string, unknown>, string]> = [
+      ['query_strapi_docs', { query: 'Can I do X?' }, '⚠️ *Note: The AI is uncertain about this answer. Please verify the information.*'],
+      ['get_strapi_best_practices', { topic: 'plugins' }, '⚠️ *Note: Please verify these recommendations with the official Strapi documentation.*'],
+      ['troubleshoot_strapi_issue', { issue_description: 'Admin panel is blank' }, '⚠️ *If this solution doesn\'t work, consider checking the Strapi community forum or GitHub issues.*'],
+    ];
+
+    for (const [name, args, note] of notes) {
+      kapa.enqueue({ json: loadFixture('chat-uncertain') });
+      const result: any = await mcp.client.callTool({ name, arguments: args });
+
+      assert.ok(textOf(result).includes(note), `${name} is missing its uncertainty note`);
+      assert.equal(result.structuredContent.is_uncertain, true);
+      assert.equal(result.structuredContent.confidence, 0.5);
+    }
+  });
+
+  it('continues a thread on the thread endpoint', async () => {
+    const result: any = await mcp.client.callTool({
+      name: 'continue_strapi_thread',
+      arguments: { thread_id: 'thread-recorded-1', query: 'And in v5?' },
+    });
+
+    assert.equal(kapa.requests[0].url, '/query/v1/threads/thread-recorded-1/chat/');
+    assert.ok(textOf(result).startsWith(loadFixture('thread-chat').answer));
+    // Kapa ne renvoie pas le thread_id des réponses de suivi
+    assert.equal(result.structuredContent.thread_id, 'thread-recorded-1');
+  });
+
+  it('forwards feedback for an answer', async () => {
+    const result: any = await mcp.client.callTool({
+      name: 'rate_strapi_answer',
+      arguments: { question_answer_id: 'qa-recorded-1', reaction: 'downvote', comment: 'Outdated' },
+    });
+
+    assert.equal(kapa.requests[0].url, '/query/v1/question-answers/qa-recorded-1/feedback/');
+    assert.equal(kapa.requests[0].body.reaction, 'downvote');
+    assert.equal(kapa.requests[0].body.comment, 'Outdated');
+    assert.deepEqual(result.structuredContent, { success: true, question_answer_id: 'qa-recorded-1', reaction: 'downvote' });
+  });
+});
+
+describe('streamed answers', () => {
+  let kapa: MockKapaServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    kapa = await new MockKapaServer().start();
+    mcp = await connectTestClient(kapa, { KAPA_STREAMING: 'true' });
+  });
+
+  after(async () => {
+    await mcp.close();
+    await kapa.close();
+  });
+
+  it('assembles the recorded stream and relays progress', async () => {
+    const progress: string[] = [];
+    const result: any = await mcp.client.callTool(
+      { name: 'query_strapi_docs', arguments: { query: 'What is Strapi?' } },
+      undefined,
+      { onprogress: notification => { progress.push(notification.message || ''); } }
+    );
+
+    assert.equal(kapa.requests[0].url, '/query/v1/projects/test-project/chat/stream/');
+    assert.deepEqual(progress, ['Strapi is an open-source ', 'headless CMS.']);
+    assert.equal(result.structuredContent.answer, 'Strapi is an open-source headless CMS.');
+    assert.equal(result.structuredContent.thread_id, 'thread-stream-1');
+    assert.match(textOf(result), /1\. \[Quick Start Guide - Strapi 5 Documentation\]\(https:\/\/docs\.strapi\.io\/cms\/quick-start\)/);
+  });
+});
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { MockKapaServer, loadFixture } from './support/mock-kapa-server';
+import { TestClient, connectTestClient, textOf } from './support/test-client';
+
+describe('ask_strapi_docs_batch', () => {
+  let kapa: MockKapaServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    kapa = await new MockKapaServer().start();
+    // Une question à la fois : les réponses programmées suivent l'ordre des questions
+    mcp = await connectTestClient(kapa, { KAPA_MAX_CONCURRENCY: '1' });
+  });
+
+  beforeEach(() => kapa.reset());
+
+  after(async () => {
+    await mcp.close();
+    await kapa.close();
+  });
+
+  it('answers each question, reports failures per item and merges the sources', async () => {
+    kapa.enqueue(
+      { json: loadFixture('chat') },
+      { status: 503, json: { detail: 'Unavailable' } },
+      { json: loadFixture('chat') },
+      { json: loadFixture('chat-uncertain') }
+    );
+    const result: any = await mcp.client.callTool({
+      name: 'ask_strapi_docs_batch',
+      arguments: {
+        questions: ['How do I create a collection type?', 'Is there a quota?', 'What is a content type?', 'Can I add a custom field?'],
+        context: 'Design review of the blog',
+        strapi_version: '5.1.0',
+      },
+    });
+    const text = textOf(result);
+    const structured = result.structuredContent;
+
+    assert.equal(result.isError, undefined);
+    assert.equal(kapa.requests.length, 4);
+    assert.ok(kapa.requests.every(request => /Design review of the blog/.test(request.body.query)));
+
+    assert.equal(structured.answered, 3);
+    assert.equal(structured.failed, 1);
+    assert.deepEqual(structured.results[1], { question: 'Is there a quota?', error: 'API error (503): Unavailable' });
+    assert.deepEqual(structured.results.map((item: any) => item.source_refs), [[1, 2, 3], undefined, [1, 2, 3], [4]]);
+    assert.deepEqual(structured.sources.map((source: any) => [source.url, source.questions]), [
+      ['https://docs.strapi.io/cms/features/content-type-builder', [1, 3]],
+      ['https://docs.strapi.io/cms/api/rest', [1, 3]],
+      ['https://docs.strapi.io/cms/backend-customization/models', [1, 3]],
+      ['https://docs.strapi.io/cms/plugins-development/developing-plugins', [4]],
+    ]);
+
+    assert.match(text, /^\*\*📦 Batch answers \(4 questions, 1 failed\)\*\*/);
+    assert.match(text, /### 2\. Is there a quota\?\n\n❌ \*Error: API error \(503\): Unavailable\*/);
+    assert.match(text, /\*Sources: \[4\] · Thread ID: thread-recorded-2 · Question answer ID: qa-recorded-2\*/);
+    assert.match(text, /⚠️ \*Note: The AI is uncertain about this answer/);
+    assert.match(text, /\*\*📚 Sources:\*\*\n1\. \[Content-type Builder - Strapi 5 Documentation\]\(https:\/\/docs\.strapi\.io\/cms\/features\/content-type-builder\)/);
+  });
+
+  it('rejects an empty batch or too many questions before calling Kapa', async () => {
+    await assert.rejects(
+      mcp.client.callTool({ name: 'ask_strapi_docs_batch', arguments: { questions: [] } }),
+      /questions: Array must contain at least 1 element\(s\)/
+    );
+    await assert.rejects(
+      mcp.client.callTool({ name: 'ask_strapi_docs_batch', arguments: { questions: Array.from({ length: 11 }, (_, index) => `Question ${index}`) } }),
+      /questions: Array must contain at most 10 element\(s\)/
+    );
+    assert.equal(kapa.requests.length, 0);
+  });
+});
+
+describe('ask_strapi_docs_batch in parallel', () => {
+  let kapa: MockKapaServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    kapa = await new MockKapaServer().start();
+    mcp = await connectTestClient(kapa, { KAPA_MAX_CONCURRENCY: '2' });
+  });
+
+  after(async () => {
+    await mcp.close();
+    await kapa.close();
+  });
+
+  it('keeps the answers in the order of the questions', async () => {
+    const questions = ['One?', 'Two?', 'Three?', 'Four?', 'Five?'];
+    const progress: string[] = [];
+    const result: any = await mcp.client.callTool(
+      { name: 'ask_strapi_docs_batch', arguments: { questions, format: 'plain' } },
+      undefined,
+      { onprogress: notification => { progress.push(notification.message || ''); } }
+    );
+
+    assert.equal(kapa.requests.length, 5);
+    assert.deepEqual(result.structuredContent.results.map((item: any) => item.question), questions);
+    assert.equal(result.structuredContent.sources.length, 3);
+    assert.deepEqual(result.structuredContent.sources[0].questions, [1, 2, 3, 4, 5]);
+    assert.match(textOf(result), /^Batch answers \(5 questions\)\n\n1\. One\?\n\n/);
+    // Une notification par question terminée, pas les morceaux des réponses
+    assert.deepEqual(progress.sort(), questions.map((_question, index) => `Question ${index + 1}/5 answered`));
+  });
+});
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { extractCodeBlocks, getCodeExampleKind, getCodeExamplePath, stripCodeBlocks } from '../src/code-examples';
+import { MockKapaServer, loadFixture } from './support/mock-kapa-server';
+import { TestClient, connectTestClient, textOf } from './support/test-client';
+
+describe('code block extraction', () => {
+  it('extracts fenced blocks with normalized languages and titles', () => {
+    const blocks = extractCodeBlocks(loadFixture('chat-code').answer);
+
+    assert.deepEqual(blocks.map(block => [block.language, block.title]), [
+      ['javascript', './src/api/article/controllers/article.js'],
+      ['typescript', undefined],
+      ['bash', undefined],
+    ]);
+    assert.match(blocks[0].code, /^const \{ createCoreController \}/);
+    assert.equal(blocks[2].code, 'npm run develop');
+  });
+
+  it('handles tilde fences, nested backticks and unterminated blocks', () => {
+    const blocks = extractCodeBlocks('~~~~md\n```js\nx\n```\n~~~~\n\n```\ntruncated');
+
+    assert.deepEqual(blocks, [
+      { language: 'md', code: '```js\nx\n```' },
+      { language: 'text', code: 'truncated' },
+    ]);
+  });
+
+  it('keeps the prose without the code', () => {
+    assert.equal(
+      stripCodeBlocks(loadFixture('chat-code').answer),
+      'You can override the `find` action of the core controller and filter on the logged-in user.\n\nRestart the server after the change:'
+    );
+  });
+
+  it('builds the target file path for each Strapi version', () => {
+    assert.equal(getCodeExamplePath(getCodeExampleKind('policy'), 5, 'ts', 'is-admin'), 'src/policies/is-admin.ts');
+    assert.equal(getCodeExamplePath(getCodeExampleKind('plugin-bootstrap'), 5, 'js'), 'src/plugins/my-plugin/server/src/bootstrap.js');
+    assert.equal(getCodeExamplePath(getCodeExampleKind('plugin-bootstrap'), 4, 'js'), 'src/plugins/my-plugin/server/bootstrap.js');
+  });
+});
+
+describe('get_strapi_code_example', () => {
+  let kapa: MockKapaServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    kapa = await new MockKapaServer().start();
+    mcp = await connectTestClient(kapa);
+  });
+
+  beforeEach(() => kapa.reset());
+
+  after(async () => {
+    await mcp.close();
+    await kapa.close();
+  });
+
+  it('returns each code block as its own content item', async () => {
+    kapa.enqueue({ json: loadFixture('chat-code') });
+    const result: any = await mcp.client.callTool({
+      name: 'get_strapi_code_example',
+      arguments: { kind: 'controller', name: 'article', language: 'ts', strapi_version: '5', description: 'only returns the articles of the logged-in author' },
+    });
+
+    assert.match(kapa.requests[0].body.query, /Strapi controller that only returns the articles of the logged-in author\. It targets Strapi version 5\. The code is written in ts\. The code goes in src\/api\/article\/controllers\/article\.ts\./);
+
+    const [summary, ...snippets] = result.content.map((item: any) => item.text);
+    assert.match(summary, /^\*\*🧩 Controller example: only returns the articles of the logged-in author\*\*/);
+    assert.doesNotMatch(summary, /```/);
+    assert.match(summary, /1\. \[Controllers\b[^\]]*\]\(https:\/\/docs\.strapi\.io\/cms\/backend-customization\/controllers/);
+    assert.equal(snippets.length, 3);
+    assert.ok(snippets[0].startsWith('**📄 `src/api/article/controllers/article.js`**\n*Source: https://docs.strapi.io/cms/backend-customization/controllers*\n\n```javascript\n'));
+    assert.ok(snippets[1].startsWith('**📄 `src/api/article/controllers/article.ts`**'));
+    assert.ok(snippets[2].startsWith('*Source: https://docs.strapi.io/cms/backend-customization/controllers*\n\n```bash\nnpm run develop\n```'));
+
+    assert.equal(result.structuredContent.kind, 'controller');
+    assert.equal(result.structuredContent.language, 'ts');
+    assert.equal(result.structuredContent.file_path, 'src/api/article/controllers/article.ts');
+    assert.deepEqual(result.structuredContent.examples.map((example: any) => [example.language, example.file_path]), [
+      ['javascript', 'src/api/article/controllers/article.js'],
+      ['typescript', 'src/api/article/controllers/article.ts'],
+      ['bash', undefined],
+    ]);
+  });
+
+  it('keeps the answer when it has no code block', async () => {
+    const result: any = await mcp.client.callTool({
+      name: 'get_strapi_code_example',
+      arguments: { kind: 'policy', description: 'checks that the user owns the entry', format: 'plain' },
+    });
+
+    assert.equal(result.content.length, 1);
+    assert.ok(textOf(result).includes(loadFixture('chat').answer));
+    assert.match(textOf(result), /No code block found in the answer\.$/);
+    assert.equal(result.structuredContent.file_path, 'src/policies/is-owner.js');
+    assert.deepEqual(result.structuredContent.examples, []);
+  });
+});
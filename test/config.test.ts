@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { ConfigError, loadConfig } from '../src/config';
+import { MOCK_API_KEY, MOCK_PROJECT_ID } from './support/mock-kapa-server';
+
+const KAPA_ENV = { KAPA_API_KEY: MOCK_API_KEY, KAPA_PROJECT_ID: MOCK_PROJECT_ID };
+
+describe('settings of the config file and their variables', () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'config-'));
+    writeFileSync(path.join(dir, 'strapi-mcp.config.yaml'), [
+      'cache:',
+      '  mode: file',
+      '  ttl: 600',
+      'sources:',
+      '  link_check: true',
+      'local_index:',
+      '  fallback: false',
+      'version_mismatch: filter',
+    ].join('\n'));
+  });
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('reads the settings from the file, with the variables on top', () => {
+    const config = loadConfig({}, { ...KAPA_ENV, KAPA_CACHE_TTL: '120', SOURCE_LINK_CHECK: 'off', KAPA_CACHE: 'NONE' }, dir);
+
+    assert.deepEqual(config.cache, { mode: 'off', ttl_seconds: 120, max_entries: 500, file: path.join(dir, '.cache/kapa-responses.json') });
+    assert.equal(config.sources.link_check, false);
+    assert.equal(config.local_index.fallback, false);
+    assert.equal(config.local_index.file, path.join(dir, '.cache/docs-index.json'));
+    assert.equal(config.version_mismatch, 'filter');
+  });
+
+  it('tests the providers at startup only on request, since Kapa bills the test question', () => {
+    assert.equal(loadConfig({}, KAPA_ENV, dir).server.startup_check, false);
+    assert.equal(loadConfig({}, { ...KAPA_ENV, STARTUP_CHECK: 'true' }, dir).server.startup_check, true);
+  });
+
+  it('reads KAPA_STREAMING like the other booleans', () => {
+    assert.equal(loadConfig({}, KAPA_ENV, dir).kapa.streaming, true);
+    for (const value of ['false', '0', 'off']) {
+      assert.equal(loadConfig({}, { ...KAPA_ENV, KAPA_STREAMING: value }, dir).kapa.streaming, false, value);
+    }
+    assert.throws(() => loadConfig({}, { ...KAPA_ENV, KAPA_STREAMING: 'nope' }, dir), /KAPA_STREAMING: Expected boolean/);
+  });
+
+  it('reads the anonymous access switch like the other booleans', () => {
+    for (const value of ['false', 'FALSE', '0', 'off']) {
+      assert.equal(loadConfig({}, { ...KAPA_ENV, STRAPI_MCP_ALLOW_ANONYMOUS: value }, dir).access.allow_anonymous, false, value);
+    }
+    assert.equal(loadConfig({}, { ...KAPA_ENV, STRAPI_MCP_ALLOW_ANONYMOUS: 'on' }, dir).access.allow_anonymous, true);
+    assert.throws(
+      () => loadConfig({}, { ...KAPA_ENV, STRAPI_MCP_ALLOW_ANONYMOUS: 'no' }, dir),
+      /STRAPI_MCP_ALLOW_ANONYMOUS: Expected boolean, received string, got "no"/
+    );
+  });
+
+  it('refuses invalid values of the variables at startup', () => {
+    assert.throws(
+      () => loadConfig({}, {
+        ...KAPA_ENV,
+        KAPA_CACHE_TTL: 'abc',
+        SOURCE_LINK_CHECK: 'maybe',
+        STRAPI_PLUGIN_CATALOG: 'github',
+        STRAPI_VERSION_MISMATCH: 'hide',
+      }, dir),
+      (error: any) => {
+        assert.ok(error instanceof ConfigError);
+        assert.match(error.message, /KAPA_CACHE_TTL: Expected number, received string, got "abc"/);
+        assert.match(error.message, /SOURCE_LINK_CHECK: Expected boolean, received string, got "maybe"/);
+        assert.match(error.message, /STRAPI_PLUGIN_CATALOG: Invalid enum value\. Expected 'npm' \| 'file', received 'github'/);
+        assert.match(error.message, /STRAPI_VERSION_MISMATCH: Invalid enum value/);
+        return true;
+      }
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { MockKapaServer } from './support/mock-kapa-server';
+import { TestClient, connectTestClient, textOf } from './support/test-client';
+
+describe('Kapa error mapping', () => {
+  let kapa: MockKapaServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    kapa = await new MockKapaServer().start();
+    mcp = await connectTestClient(kapa);
+  });
+
+  beforeEach(() => kapa.reset());
+
+  after(async () => {
+    await mcp.close();
+    await kapa.close();
+  });
+
+  async function queryError(args: Record<string, unknown> = { query: 'What is Strapi?' }, name: string = 'query_strapi_docs') {
+    const result: any = await mcp.client.callTool({ name, arguments: args });
+    assert.equal(result.isError, true, `${name} should fail`);
+    return textOf(result);
+  }
+
+  const statuses: Array<[number, RegExp]> = [
+    [401, /^❌ Error: Invalid API key\. Please check your KAPA_API_KEY\.$/],
+    [403, /^❌ Error: Access forbidden\. Please check your project permissions\.$/],
+    [404, /^❌ Error: Project not found\. Please check your KAPA_PROJECT_ID\.$/],
+    [422, /^❌ Error: Invalid request: Query is too long$/],
+    [429, /^❌ Error: Rate limit exceeded\. Please try again later\./],
+    [500, /^❌ Error: API error \(500\): Query is too long/],
+    [503, /^❌ Error: API error \(503\): Query is too long/],
+  ];
+
+  for (const [status, expected] of statuses) {
+    it(`maps HTTP ${status}`, async () => {
+      kapa.fail(status, 'Query is too long');
+      assert.match(await queryError(), expected);
+    });
+  }
+
+  it('reports an unknown thread on 404 for follow-ups', async () => {
+    kapa.fail(404);
+    assert.equal(
+      await queryError({ thread_id: 'gone', query: 'And then?' }, 'continue_strapi_thread'),
+      '❌ Error: Thread not found: gone. Start a new conversation with query_strapi_docs.'
+    );
+  });
+
+  it('reports an unknown answer on 404 for feedback', async () => {
+    kapa.fail(404);
+    assert.equal(
+      await queryError({ question_answer_id: 'qa-gone', reaction: 'upvote' }, 'rate_strapi_answer'),
+      '❌ Error: Answer not found: qa-gone. Please check the question_answer_id.'
+    );
+  });
+
+  it('rejects a malformed JSON body', async () => {
+    kapa.enqueue({ raw: '{"answer": "Strapi is' });
+    assert.equal(await queryError(), '❌ Error: Invalid response from Kapa API: expected a JSON body');
+  });
+
+  it('rejects an HTML error page', async () => {
+    kapa.enqueue({ raw: '<html><body>Bad gateway</body></html>', headers: { 'content-type': 'text/html' } });
+    assert.equal(await queryError(), '❌ Error: Invalid response from Kapa API: expected a JSON body');
+  });
+
+  it('reports a failed connection test', async () => {
+    kapa.fail(401);
+    const result: any = await mcp.client.callTool({ name: 'test_kapa_connection', arguments: {} });
+
+    assert.equal(result.structuredContent.success, false);
+    assert.deepEqual(result.structuredContent.providers.map((provider: any) => [provider.provider, provider.success, provider.message]), [
+      ['kapa', false, 'Invalid API key. Please check your KAPA_API_KEY.'],
+    ]);
+  });
+
+  it('counts Kapa errors by status in the usage report', async () => {
+    kapa.fail(429);
+    await queryError();
+
+    const result: any = await mcp.client.callTool({ name: 'usage_report', arguments: { window: '1h' } });
+    assert.ok(result.structuredContent.kapa_errors['429'] >= 1);
+    assert.ok(result.structuredContent.errors >= 1);
+  });
+});
+
+describe('Kapa stream errors', () => {
+  let kapa: MockKapaServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    kapa = await new MockKapaServer().start();
+    mcp = await connectTestClient(kapa, { KAPA_STREAMING: 'true' });
+  });
+
+  beforeEach(() => kapa.reset());
+
+  after(async () => {
+    await mcp.close();
+    await kapa.close();
+  });
+
+  it('reads the error detail from a streamed error body', async () => {
+    kapa.fail(422, 'Unsupported source_ids_include');
+    const result: any = await mcp.client.callTool({ name: 'query_strapi_docs', arguments: { query: 'What is Strapi?' } });
+
+    assert.equal(result.isError, true);
+    assert.equal(textOf(result), '❌ Error: Invalid request: Unsupported source_ids_include');
+  });
+
+  it('reports an error record in the stream', async () => {
+    kapa.enqueue({ stream: [{ chunk: { type: 'error', content: { reason: 'Model overloaded' } } }] });
+    const result: any = await mcp.client.callTool({ name: 'query_strapi_docs', arguments: { query: 'What is Strapi?' } });
+
+    assert.equal(textOf(result), '❌ Error: Kapa streaming error: Model overloaded');
+  });
+
+  it('rejects a malformed stream record', async () => {
+    kapa.enqueue({ raw: '{"chunk": {"type": "partial_answer", "content": {"text": "Str' });
+    const result: any = await mcp.client.callTool({ name: 'query_strapi_docs', arguments: { query: 'What is Strapi?' } });
+
+    assert.equal(textOf(result), '❌ Error: Invalid response from Kapa API: malformed record in the answer stream');
+  });
+});
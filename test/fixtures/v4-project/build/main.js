@@ -0,0 +1 @@
+strapi.entityService.findMany('api::article.article');
@@ -0,0 +1,16 @@
+export async function getArticles() {
+  const response = await fetch('http://localhost:1337/api/articles');
+  const { data } = await response.json();
+
+  return data.map((article: any) => ({
+    id: article.id,
+    title: article.attributes.title,
+    cover: article.attributes.cover.data?.attributes.url,
+  }));
+}
+
+export async function getArticle(id: number) {
+  const response = await fetch(`http://localhost:1337/api/articles/${id}`);
+  const json = await response.json();
+  return json.data.attributes;
+}
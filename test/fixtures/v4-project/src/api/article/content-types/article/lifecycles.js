@@ -0,0 +1,5 @@
+module.exports = {
+  beforeCreate(event) {
+    event.params.data.slug = event.params.data.title.toLowerCase();
+  },
+};
@@ -0,0 +1,15 @@
+'use strict';
+
+const { createCoreService } = require('@strapi/strapi').factories;
+
+module.exports = createCoreService('api::article.article', ({ strapi }) => ({
+  async findPublished() {
+    return strapi.entityService.findMany('api::article.article', {
+      publicationState: 'live',
+    });
+  },
+
+  async countByAuthor(authorId) {
+    return strapi.query('api::article.article').count({ where: { author: authorId } });
+  },
+}));
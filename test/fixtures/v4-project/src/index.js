@@ -0,0 +1,14 @@
+'use strict';
+
+module.exports = {
+  register() {},
+
+  bootstrap({ strapi }) {
+    strapi.db.lifecycles.subscribe({
+      models: ['plugin::users-permissions.user'],
+      async afterCreate(event) {
+        await strapi.entityService.create('api::profile.profile', { data: { user: event.result.id } });
+      },
+    });
+  },
+};
@@ -0,0 +1,10 @@
+import { prefixPluginTranslations } from '@strapi/helper-plugin';
+
+export default {
+  register(app) {
+    app.registerPlugin({ id: 'todo', name: 'todo' });
+  },
+  async registerTrads({ locales }) {
+    return Promise.all(locales.map(locale => prefixPluginTranslations({}, 'todo')));
+  },
+};
@@ -0,0 +1,82 @@
+import './support/env';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { startHttpServer } from '../src/http-transport';
+
+describe('HTTP transport', () => {
+  let httpServer: http.Server | undefined;
+  const clients: Client[] = [];
+
+  async function start(options: { sessionIdleTimeoutMs?: number; maxSessions?: number } = {}): Promise<string> {
+    httpServer = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      createServer: () => new Server({ name: 'http-tests', version: '1.0.0' }, { capabilities: {} }),
+      ...options,
+    });
+    return `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  }
+
+  async function connect(baseUrl: string): Promise<StreamableHTTPClientTransport> {
+    const client = new Client({ name: 'http-tests', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    await client.connect(transport);
+    clients.push(client);
+    return transport;
+  }
+
+  async function openSessions(baseUrl: string): Promise<number> {
+    const health: any = await (await fetch(`${baseUrl}/health`)).json();
+    return health.sessions;
+  }
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(client => client.close().catch(() => undefined)));
+    await new Promise<void>(resolve => httpServer ? httpServer.close(() => resolve()) : resolve());
+    httpServer = undefined;
+  });
+
+  it('refuses invalid JSON and oversized bodies with a JSON-RPC error', async () => {
+    const baseUrl = await start();
+    const post = (body: string) => fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body,
+    });
+
+    const invalid = await post('{"jsonrpc": "2.0",');
+    assert.equal(invalid.status, 400);
+    const parseError: any = await invalid.json();
+    assert.equal(parseError.error.code, -32700);
+
+    const oversized = await post(JSON.stringify({ padding: 'x'.repeat(5 * 1024 * 1024) }));
+    assert.equal(oversized.status, 413);
+    const tooLarge: any = await oversized.json();
+    assert.match(tooLarge.error.message, /Request body too large/);
+  });
+
+  it('closes sessions left idle', async () => {
+    const baseUrl = await start({ sessionIdleTimeoutMs: 100 });
+    await connect(baseUrl);
+    assert.equal(await openSessions(baseUrl), 1);
+
+    await new Promise(resolve => setTimeout(resolve, 350));
+    assert.equal(await openSessions(baseUrl), 0);
+  });
+
+  it('closes the least recently used session beyond the limit', async () => {
+    const baseUrl = await start({ maxSessions: 2 });
+    const first = await connect(baseUrl);
+    await connect(baseUrl);
+    await connect(baseUrl);
+
+    assert.equal(await openSessions(baseUrl), 2);
+    const stale = await fetch(`${baseUrl}/mcp`, { method: 'GET', headers: { 'Mcp-Session-Id': first.sessionId! } });
+    assert.equal(stale.status, 404);
+  });
+});
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { groupFindingsByFile, scanProjectForMigration } from '../src/migration-scan';
+import { MockKapaServer } from './support/mock-kapa-server';
+import { TestClient, connectTestClient, textOf } from './support/test-client';
+
+const V4_PROJECT = path.join(__dirname, 'fixtures', 'v4-project');
+
+describe('migration scan', () => {
+  it('finds the v4-only patterns with file and line', async () => {
+    const scan = await scanProjectForMigration(V4_PROJECT);
+    const found = scan.findings.map(finding => `${finding.category} ${finding.file}:${finding.line}`).sort();
+
+    assert.deepEqual(found, [
+      'entity-service src/api/article/services/article.js:7',
+      'entity-service src/index.js:10',
+      'lifecycle-hooks src/api/article/content-types/article/lifecycles.js:2',
+      'lifecycle-hooks src/index.js:7',
+      'lifecycle-hooks src/index.js:9',
+      'plugin-apis src/plugins/todo/admin/src/index.js:1',
+      'query-engine src/api/article/services/article.js:13',
+      'response-attributes frontend/lib/api.ts:15',
+      'response-attributes frontend/lib/api.ts:7',
+      'response-attributes frontend/lib/api.ts:8',
+    ]);
+    // build/ est ignoré
+    assert.equal(scan.files_scanned, 5);
+    assert.equal(scan.truncated, false);
+  });
+
+  it('groups findings by file in line order', async () => {
+    const groups = groupFindingsByFile((await scanProjectForMigration(V4_PROJECT)).findings);
+    const index = groups.find(group => group.file === 'src/index.js')!;
+
+    assert.deepEqual(index.findings.map(finding => finding.line), [7, 9, 10]);
+  });
+
+  it('rejects a missing project path', async () => {
+    await assert.rejects(scanProjectForMigration(path.join(V4_PROJECT, 'missing')), /Project path not found/);
+  });
+});
+
+describe('plan_strapi_migration', () => {
+  let kapa: MockKapaServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    kapa = await new MockKapaServer().start();
+    mcp = await connectTestClient(kapa);
+  });
+
+  beforeEach(() => kapa.reset());
+
+  after(async () => {
+    await mcp.close();
+    await kapa.close();
+  });
+
+  it('asks the docs once per category and renders a checklist', async () => {
+    const result: any = await mcp.client.callTool({ name: 'plan_strapi_migration', arguments: { project_path: V4_PROJECT } });
+    const text = textOf(result);
+
+    assert.equal(kapa.requests.length, 5);
+    assert.ok(kapa.requests.some(request => /entityService calls/.test(request.body.query)));
+
+    assert.match(text, /🏷️ \*Strapi v4 \(4\.15\.0, from package\.json\)\*/);
+    assert.match(text, /Scanned 5 files: 10 findings in 5 categories\./);
+    assert.match(text, /### 1\. Entity Service API calls \(2\)/);
+    assert.match(text, /- \[ \] `src\/api\/article\/services\/article\.js`\n  - \[ \] `src\/api\/article\/services\/article\.js:7` `return strapi\.entityService\.findMany/);
+    assert.match(text, /\*\*📚 v5 guidance:\*\*/);
+    assert.match(text, /- \[Content-type Builder\b[^\]]*\]\(https:\/\/docs\.strapi\.io\/cms\/features\/content-type-builder\)/);
+
+    assert.equal(result.structuredContent.findings, 10);
+    assert.deepEqual(result.structuredContent.categories.map((category: any) => [category.id, category.count]), [
+      ['entity-service', 2],
+      ['query-engine', 1],
+      ['response-attributes', 3],
+      ['lifecycle-hooks', 3],
+      ['plugin-apis', 1],
+    ]);
+    assert.equal(result.structuredContent.files.length, 5);
+  });
+
+  it('keeps the checklist when the docs are unavailable', async () => {
+    kapa.enqueue(...Array.from({ length: 5 }, () => ({ status: 503, json: { detail: 'Unavailable' } })));
+    const result: any = await mcp.client.callTool({ name: 'plan_strapi_migration', arguments: { project_path: V4_PROJECT, format: 'plain' } });
+    const text = textOf(result);
+
+    assert.equal(result.isError, undefined);
+    assert.match(text, /- \[ \] src\/index\.js:7 strapi\.db\.lifecycles\.subscribe\(\{/);
+    assert.match(text, /Could not get the v5 guidance: API error \(503\): Unavailable/);
+    result.structuredContent.categories.forEach((category: any) => assert.equal(category.error, 'API error (503): Unavailable'));
+  });
+});
@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import {
+  JsonFilePluginCatalog,
+  checkPluginCompatibility,
+  getSupportedStrapiVersions,
+  parseMajorVersions,
+  toPluginInfo,
+} from '../src/plugin-catalog';
+import { MockKapaServer } from './support/mock-kapa-server';
+import { TestClient, connectTestClient, textOf } from './support/test-client';
+
+const V4_PROJECT = path.join(__dirname, 'fixtures', 'v4-project');
+
+describe('plugin catalog', () => {
+  it('reads the major versions of a semver range', () => {
+    assert.deepEqual(parseMajorVersions('^4.0.0 || ^5.0.0'), [4, 5]);
+    assert.deepEqual(parseMajorVersions('>=4.0.0'), [4, 5]);
+    assert.deepEqual(parseMajorVersions('>=4.15.0 <6'), [4, 5]);
+    assert.deepEqual(parseMajorVersions('*'), [3, 4, 5]);
+    assert.deepEqual(parseMajorVersions('5.x'), [5]);
+  });
+
+  it('checks open-ended ranges against newer majors', () => {
+    const plugin = toPluginInfo({ name: 'strapi-plugin-open', version: '1.0.0', peerDependencies: { '@strapi/strapi': '>=4.0.0' } });
+
+    assert.equal(checkPluginCompatibility(plugin, 5), 'compatible');
+    assert.equal(checkPluginCompatibility(plugin, 6), 'compatible');
+    assert.equal(checkPluginCompatibility(plugin, 3), 'incompatible');
+  });
+
+  it('ignores invalid entries of a snapshot', async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'plugins-'));
+    const file = path.join(dir, 'plugins.json');
+    writeFileSync(file, JSON.stringify([
+      { description: 'SEO without a name', version: '1.0.0' },
+      { name: 'strapi-plugin-seo-broken', version: '1.0.0', strapi_versions: '5' },
+      { name: 'strapi-plugin-seo-ok', version: '1.0.0', strapi_range: '>=4.0.0' },
+    ]));
+    try {
+      const plugins = await new JsonFilePluginCatalog(file).search('seo', 10);
+
+      assert.deepEqual(plugins.map(plugin => [plugin.name, plugin.strapi_versions]), [['strapi-plugin-seo-ok', [4, 5]]]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('falls back to the version-specific packages without a @strapi/strapi peer dependency', () => {
+    assert.deepEqual(getSupportedStrapiVersions({ peerDependencies: { '@strapi/strapi': '^5.2.0' } }), {
+      strapi_versions: [5],
+      strapi_range: '^5.2.0',
+    });
+    assert.deepEqual(getSupportedStrapiVersions({ dependencies: { '@strapi/helper-plugin': '^4.6.0' } }), { strapi_versions: [4] });
+    assert.deepEqual(getSupportedStrapiVersions({ dependencies: { react: '^18.0.0' } }), { strapi_versions: [] });
+  });
+});
+
+describe('plugin tools', () => {
+  let kapa: MockKapaServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    kapa = await new MockKapaServer().start();
+    mcp = await connectTestClient(kapa, {
+      STRAPI_PLUGIN_CATALOG: 'file',
+      STRAPI_PLUGIN_CATALOG_FILE: path.join(__dirname, 'fixtures', 'plugins.json'),
+    });
+  });
+
+  beforeEach(() => kapa.reset());
+
+  after(async () => {
+    await mcp.close();
+    await kapa.close();
+  });
+
+  it('lists compatible plugins first and asks how to set up the best match', async () => {
+    const result: any = await mcp.client.callTool({ name: 'find_strapi_plugin', arguments: { query: 'seo meta tags', project_path: V4_PROJECT } });
+    const text = textOf(result);
+
+    assert.deepEqual(result.structuredContent.plugins.map((plugin: any) => [plugin.name, plugin.compatibility]), [
+      ['strapi-plugin-seo-legacy', 'compatible'],
+      ['strapi-plugin-sitemap', 'unknown'],
+      ['@strapi/plugin-seo', 'incompatible'],
+    ]);
+    assert.equal(kapa.requests.length, 1);
+    assert.match(kapa.requests[0].body.query, /"strapi-plugin-seo-legacy" Strapi plugin to seo meta tags\? I'm using Strapi version 4\.15\.0/);
+
+    assert.match(text, /1\. \*\*\[strapi-plugin-seo-legacy\]\(https:\/\/github\.com\/example\/strapi-plugin-seo-legacy\)\*\* 1\.3\.0 — ✅ Supports Strapi v4/);
+    assert.match(text, /Strapi versions: v4 \(\^4\.0\.0\) · Last published: 2023-05-20/);
+    assert.match(text, /❌ Does not support Strapi v4/);
+    assert.match(text, /\*\*🛠️ Setup: strapi-plugin-seo-legacy\*\*/);
+    assert.equal(result.structuredContent.setup.question_answer_id, 'qa-recorded-1');
+  });
+
+  it('returns the plugin metadata when the docs are unavailable', async () => {
+    kapa.enqueue({ status: 503, json: { detail: 'Unavailable' } });
+    const result: any = await mcp.client.callTool({ name: 'get_strapi_plugin_info', arguments: { name: '@strapi/plugin-seo', format: 'plain' } });
+    const text = textOf(result);
+
+    assert.equal(result.isError, undefined);
+    assert.match(text, /1\. @strapi\/plugin-seo 2\.0\.4 - https:\/\/github\.com\/strapi\/strapi-plugin-seo — Strapi version support unknown/);
+    assert.equal(result.structuredContent.plugin.compatibility, 'unknown');
+    assert.equal(result.structuredContent.setup_error, 'API error (503): Unavailable');
+    assert.match(text, /Could not get the setup steps from the documentation: API error \(503\): Unavailable/);
+  });
+
+  it('reports a plugin missing from the catalog', async () => {
+    const result: any = await mcp.client.callTool({ name: 'get_strapi_plugin_info', arguments: { name: 'strapi-plugin-nope' } });
+
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /Plugin not found in the file catalog: strapi-plugin-nope/);
+    assert.equal(kapa.requests.length, 0);
+  });
+});
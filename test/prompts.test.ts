@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { createPromptRegistry } from '../src/prompts';
+import { MockKapaServer } from './support/mock-kapa-server';
+import { TestClient, connectTestClient } from './support/test-client';
+
+describe('prompt requests', () => {
+  let kapa: MockKapaServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    kapa = await new MockKapaServer().start();
+    mcp = await connectTestClient(kapa);
+  });
+
+  after(async () => {
+    await mcp.close();
+    await kapa.close();
+  });
+
+  it('refuse unknown prompts and missing arguments with InvalidParams', async () => {
+    const isInvalidParams = (message: RegExp) => (error: any) => {
+      assert.ok(error instanceof McpError);
+      assert.equal(error.code, ErrorCode.InvalidParams);
+      assert.match(error.message, message);
+      return true;
+    };
+
+    await assert.rejects(mcp.client.getPrompt({ name: 'no-such-prompt' }), isInvalidParams(/Unknown prompt: no-such-prompt/));
+    await assert.rejects(
+      mcp.client.getPrompt({ name: 'strapi-troubleshoot', arguments: {} }),
+      isInvalidParams(/Missing required argument "issue_description"/)
+    );
+  });
+});
+
+describe('team prompts file', () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+  });
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  function promptsFile(prompts: unknown[]): string {
+    const file = path.join(dir, `prompts-${Math.random().toString(36).slice(2)}.json`);
+    writeFileSync(file, JSON.stringify({ prompts }));
+    return file;
+  }
+
+  it('overrides the text of a built-in prompt and keeps its arguments', () => {
+    const registry = createPromptRegistry(promptsFile([
+      { name: 'strapi-troubleshoot', template: 'ACME runbook for: {{issue_description}}' },
+    ]));
+
+    assert.equal(registry.render('strapi-troubleshoot', { issue_description: 'Admin build fails' }), 'ACME runbook for: Admin build fails');
+    assert.deepEqual(registry.get('strapi-troubleshoot')!.arguments!.map(argument => argument.name), ['issue_description', 'error_message', 'strapi_version']);
+  });
+
+  it('refuses overrides that change the arguments the tools render with', () => {
+    assert.throws(
+      () => createPromptRegistry(promptsFile([
+        { name: 'strapi-troubleshoot', arguments: [{ name: 'problem', required: true }], template: 'Fix {{problem}}' },
+      ])),
+      /"strapi-troubleshoot" overrides a built-in prompt and must keep its arguments: error_message, issue_description \(required\), strapi_version/
+    );
+  });
+});
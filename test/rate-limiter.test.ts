@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AbortError, ConcurrencyLimiter } from '../src/rate-limiter';
+
+describe('concurrency limiter', () => {
+  it('hands a freed slot to the next waiter before new callers', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    let running = 0;
+    let maxRunning = 0;
+    const work = () => {
+      running += 1;
+      maxRunning = Math.max(maxRunning, running);
+      return new Promise<void>(resolve => setTimeout(() => {
+        running -= 1;
+        resolve();
+      }, 5));
+    };
+
+    let firstWork!: Promise<void>;
+    const first = limiter.run(() => (firstWork = work()));
+    const queued = limiter.run(work);
+    // Un nouvel appel arrive juste après la libération de la place, avant que l'appel en attente reprenne
+    const late = firstWork.then(() => limiter.run(work));
+    await Promise.all([first, queued, late]);
+
+    assert.equal(maxRunning, 1);
+  });
+
+  it('stops waiting for a slot when the request is cancelled', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    let release!: () => void;
+    const busy = limiter.run(() => new Promise<void>(resolve => { release = resolve; }));
+    const controller = new AbortController();
+    let started = false;
+
+    const cancelled = limiter.run(async () => { started = true; }, controller.signal);
+    assert.equal(limiter.pending, 1);
+    controller.abort();
+
+    await assert.rejects(cancelled, (error: any) => error instanceof AbortError);
+    assert.equal(limiter.pending, 0);
+    release();
+    await busy;
+    assert.equal(started, false);
+  });
+});
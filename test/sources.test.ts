@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { mkdtempSync, rmSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { JsonFileStore } from '../src/cache';
+import { LinkChecker, LinkStatus, SourceProcessor, canonicalizeUrl, toSnippetExcerpt } from '../src/source-links';
+import { MockKapaServer, loadFixture } from './support/mock-kapa-server';
+import { TestClient, connectTestClient, textOf } from './support/test-client';
+
+describe('source post-processing', () => {
+  it('canonicalizes URLs without anchors and trailing slashes', () => {
+    assert.equal(canonicalizeUrl('https://docs.strapi.io/cms/api/rest/#filters'), 'https://docs.strapi.io/cms/api/rest');
+    assert.equal(canonicalizeUrl('https://docs.strapi.io/'), 'https://docs.strapi.io');
+    assert.equal(canonicalizeUrl('https://docs.strapi.io/cms/api/rest?v=5'), 'https://docs.strapi.io/cms/api/rest?v=5');
+  });
+
+  it('dedupes, cleans titles and ranks by relevance to the question', async () => {
+    const sources = await new SourceProcessor().process([
+      { title: 'Models', url: 'https://docs.strapi.io/cms/backend-customization/models', snippet: '' },
+      { title: 'REST API | Filters', url: 'https://docs.strapi.io/cms/api/rest/#filters', snippet: 'Use filters in the query string' },
+      { title: 'Internal note', url: '#', snippet: '' },
+      { title: 'REST API | Sorting', url: 'https://docs.strapi.io/cms/api/rest/', snippet: '' },
+    ], 'How do I filter REST API results?');
+
+    assert.deepEqual(sources.map(source => [source.title, source.url]), [
+      ['REST API - Filters', 'https://docs.strapi.io/cms/api/rest/#filters'],
+      ['Models', 'https://docs.strapi.io/cms/backend-customization/models'],
+    ]);
+  });
+
+  it('renumbers the citations of the answer after deduping and ranking', async () => {
+    const answer = await new SourceProcessor().processAnswer({
+      answer: 'Define models [1]. Filter with `filters[0]` [2][3], see items[1].\n```js\nconst first = results[1];\n```\nUnknown [7].',
+      sources: [
+        { title: 'Models', url: 'https://docs.strapi.io/cms/backend-customization/models', snippet: '' },
+        { title: 'REST API | Filters', url: 'https://docs.strapi.io/cms/api/rest/#filters', snippet: 'Use filters in the query string' },
+        { title: 'REST API | Sorting', url: 'https://docs.strapi.io/cms/api/rest/', snippet: '' },
+      ],
+    }, 'How do I filter REST API results?');
+
+    assert.deepEqual(answer.sources.map(source => source.title), ['REST API - Filters', 'Models']);
+    assert.equal(answer.answer, 'Define models [2]. Filter with `filters[0]` [1], see items[1].\n```js\nconst first = results[1];\n```\nUnknown [7].');
+  });
+
+  it('shortens snippets to one line cut at a word', () => {
+    assert.equal(toSnippetExcerpt('## Filters\n\nUse   the `filters` parameter.'), 'Filters Use the `filters` parameter.');
+    assert.equal(toSnippetExcerpt('word '.repeat(60), 20), 'word word word word…');
+  });
+});
+
+describe('link verification', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let cacheDir: string;
+  const requests: string[] = [];
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`);
+      const routes: Record<string, [number, Record<string, string>?]> = {
+        '/ok': [200],
+        '/old': [301, { location: '/new' }],
+        '/slash': [308, { location: '/slash/' }],
+        '/gone': [404],
+        '/no-head': [405],
+      };
+      const [status, headers] = routes[req.url || ''] || [500];
+      res.writeHead(status, headers);
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    cacheDir = mkdtempSync(path.join(os.tmpdir(), 'source-links-'));
+  });
+
+  after(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('drops dead links, follows moved ones and keeps the unverifiable ones', async () => {
+    const store = new JsonFileStore<LinkStatus>(path.join(cacheDir, 'links.json'));
+    const processor = new SourceProcessor(new LinkChecker(store));
+    const sources = await processor.process(['ok', 'old', 'slash', 'gone', 'no-head'].map(page => ({
+      title: page,
+      url: `${baseUrl}/${page}#section`,
+      snippet: '',
+    })));
+
+    assert.deepEqual(sources.map(source => [source.title, source.url, source.link_status, source.moved_from]), [
+      ['ok', `${baseUrl}/ok#section`, 'ok', undefined],
+      ['old', `${baseUrl}/new`, 'moved', `${baseUrl}/old#section`],
+      ['slash', `${baseUrl}/slash#section`, 'ok', undefined],
+      ['no-head', `${baseUrl}/no-head#section`, 'unknown', undefined],
+    ]);
+    assert.ok(requests.every(request => request.startsWith('HEAD ')));
+  });
+
+  it('drops the citations of dead links', async () => {
+    const processor = new SourceProcessor(new LinkChecker(new JsonFileStore<LinkStatus>(path.join(cacheDir, 'links.json'))));
+    const answer = await processor.processAnswer({
+      answer: 'Moved page [2], gone page [4], other page [5].',
+      sources: ['ok', 'old', 'slash', 'gone', 'no-head'].map(page => ({ title: page, url: `${baseUrl}/${page}`, snippet: '' })),
+    });
+
+    assert.equal(answer.answer, 'Moved page [2], gone page, other page [4].');
+    assert.equal(answer.sources[3].title, 'no-head');
+  });
+
+  it('reads the results back from the cache file', async () => {
+    requests.length = 0;
+    const checker = new LinkChecker(new JsonFileStore<LinkStatus>(path.join(cacheDir, 'links.json')));
+
+    assert.deepEqual(await checker.check(`${baseUrl}/gone`), { status: 'dead' });
+    assert.deepEqual(await checker.check(`${baseUrl}/old/`), { status: 'moved', location: `${baseUrl}/new` });
+    assert.equal(await checker.check(`${baseUrl}/no-head`), undefined);
+    // Seul le lien non vérifiable est redemandé
+    assert.deepEqual(requests, ['HEAD /no-head']);
+  });
+});
+
+describe('sources in tool answers', () => {
+  let kapa: MockKapaServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    kapa = await new MockKapaServer().start();
+    mcp = await connectTestClient(kapa);
+  });
+
+  after(async () => {
+    await mcp.close();
+    await kapa.close();
+  });
+
+  it('renders deduplicated sources with a quoted excerpt', async () => {
+    kapa.enqueue({
+      json: {
+        answer: 'Use the filters parameter.',
+        relevant_sources: [
+          { title: 'Models', source_url: 'https://docs.strapi.io/cms/backend-customization/models' },
+          { title: 'REST API | Filters', source_url: 'https://docs.strapi.io/cms/api/rest#filters', snippet: 'Queries can accept a filters parameter.' },
+          { title: 'REST API | REST API', source_url: 'https://docs.strapi.io/cms/api/rest/' },
+        ],
+        thread_id: 'thread-1',
+        question_answer_id: 'qa-1',
+      },
+    });
+    const result: any = await mcp.client.callTool({ name: 'get_strapi_best_practices', arguments: { topic: 'REST filters' } });
+
+    assert.match(textOf(result), /\*\*📖 References:\*\*\n1\. \[REST API - Filters\]\(https:\/\/docs\.strapi\.io\/cms\/api\/rest#filters\)\n   > Queries can accept a filters parameter\.\n2\. \[Models\]/);
+    assert.equal(result.structuredContent.sources.length, 2);
+  });
+
+  it('cleans the source titles of the code example and migration tools too', async () => {
+    kapa.enqueue({ json: loadFixture('chat-code') });
+    const example: any = await mcp.client.callTool({
+      name: 'get_strapi_code_example',
+      arguments: { kind: 'controller', description: 'only returns the articles of the logged-in author' },
+    });
+    const plan: any = await mcp.client.callTool({
+      name: 'plan_strapi_migration',
+      arguments: { project_path: path.join(__dirname, 'fixtures', 'v4-project') },
+    });
+
+    assert.match(example.content[0].text, /1\. \[Controllers - Strapi 5 Documentation\]/);
+    assert.match(textOf(plan), /- \[Content-type Builder - Strapi 5 Documentation\]\(https:\/\/docs\.strapi\.io\/cms\/features\/content-type-builder\)/);
+  });
+});
@@ -0,0 +1,3 @@
+// Environnement des tests, avant le chargement du serveur : journal limité aux erreurs.
+// Le reste de la configuration est passé explicitement à loadConfig (voir test-client.ts)
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
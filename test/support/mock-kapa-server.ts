@@ -0,0 +1,120 @@
+import { readFileSync } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+
+// Séparateur des enregistrements du flux Kapa
+const STREAM_RECORD_SEPARATOR = '\u241E';
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'kapa');
+
+export const MOCK_API_KEY = 'test-api-key';
+export const MOCK_PROJECT_ID = 'test-project';
+
+export interface MockKapaRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+// Réponse programmée : JSON, corps brut (malformé) ou flux d'enregistrements
+export interface MockKapaResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  json?: unknown;
+  raw?: string;
+  stream?: unknown[];
+}
+
+export function loadFixture<T = any>(name: string): T {
+  return JSON.parse(readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf-8'));
+}
+
+// Serveur Kapa local : rejoue les réponses enregistrées de test/fixtures/kapa et simule les erreurs
+export class MockKapaServer {
+  readonly requests: MockKapaRequest[] = [];
+  private queue: MockKapaResponse[] = [];
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async start(): Promise<this> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return this;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  // Les réponses programmées passent avant les réponses enregistrées, dans l'ordre
+  enqueue(...responses: MockKapaResponse[]): void {
+    this.queue.push(...responses);
+  }
+
+  fail(status: number, detail: string = 'Simulated error', headers?: Record<string, string>): void {
+    this.enqueue({ status, json: { detail }, headers });
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.queue = [];
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const url = req.url || '/';
+      this.requests.push({ method: req.method || 'GET', url, headers: req.headers, body: body ? JSON.parse(body) : undefined });
+
+      const response = this.queue.shift() || this.route(req, url);
+      const streaming = url.endsWith('/stream/');
+
+      if (response.stream) {
+        res.writeHead(response.status || 200, { 'content-type': 'text/event-stream', ...response.headers });
+        res.end(response.stream.map(record => JSON.stringify(record)).join(STREAM_RECORD_SEPARATOR));
+      } else if (response.raw !== undefined) {
+        res.writeHead(response.status || 200, { 'content-type': streaming ? 'text/event-stream' : 'application/json', ...response.headers });
+        res.end(response.raw);
+      } else {
+        res.writeHead(response.status || 200, { 'content-type': 'application/json', ...response.headers });
+        res.end(JSON.stringify(response.json ?? {}));
+      }
+    });
+  }
+
+  // Comportement de l'API Kapa pour les réponses non programmées
+  private route(req: http.IncomingMessage, url: string): MockKapaResponse {
+    if (req.headers['x-api-key'] !== MOCK_API_KEY) {
+      return { status: 401, json: { detail: 'Invalid API key' } };
+    }
+
+    const projectChat = url.match(/^\/query\/v1\/projects\/([^/]+)\/chat\/(stream\/)?$/);
+    if (projectChat) {
+      if (projectChat[1] !== MOCK_PROJECT_ID) {
+        return { status: 404, json: { detail: 'Project not found' } };
+      }
+      return projectChat[2]
+        ? { stream: loadFixture('chat-stream') }
+        : { json: loadFixture('chat') };
+    }
+
+    const threadChat = url.match(/^\/query\/v1\/threads\/([^/]+)\/chat\/(stream\/)?$/);
+    if (threadChat) {
+      return threadChat[2]
+        ? { stream: [{ chunk: { type: 'partial_answer', content: { text: loadFixture('thread-chat').answer } } }] }
+        : { json: loadFixture('thread-chat') };
+    }
+
+    if (/^\/query\/v1\/question-answers\/[^/]+\/feedback\/$/.test(url)) {
+      return { json: {} };
+    }
+
+    return { status: 404, json: { detail: 'Not found' } };
+  }
+}
@@ -0,0 +1,52 @@
+import './env';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import path from 'path';
+import { loadConfig } from '../../src/config';
+import { StrapiKapaMCPServer } from '../../src/index';
+import { MOCK_API_KEY, MOCK_PROJECT_ID, MockKapaServer } from './mock-kapa-server';
+
+export interface TestClient {
+  client: Client;
+  close(): Promise<void>;
+}
+
+// Serveur MCP branché sur le faux Kapa, piloté par un client MCP en mémoire.
+// headers simule les en-têtes HTTP des requêtes (ex. Authorization)
+export async function connectTestClient(
+  kapa: MockKapaServer,
+  env: Record<string, string> = {},
+  headers?: Record<string, string>
+): Promise<TestClient> {
+  const config = loadConfig({}, {
+    KAPA_API_KEY: MOCK_API_KEY,
+    KAPA_PROJECT_ID: MOCK_PROJECT_ID,
+    KAPA_API_URL: kapa.url,
+    KAPA_STREAMING: 'false',
+    KAPA_MAX_RETRIES: '0',
+    // Pas de cache de réponses ni de repli sur l'index local
+    KAPA_CACHE: 'off',
+    LOCAL_FALLBACK: 'false',
+    ...env,
+  }, path.join(__dirname, '..'));
+
+  const server = new StrapiKapaMCPServer(config);
+  const client = new Client({ name: 'contract-tests', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+
+  await server.connect(serverTransport);
+  if (headers) {
+    const transport: Transport = serverTransport;
+    const onmessage = transport.onmessage!;
+    transport.onmessage = (message, extra) => onmessage(message, { ...extra, requestInfo: { headers } });
+  }
+  await client.connect(clientTransport);
+
+  return { client, close: () => client.close() };
+}
+
+// Texte de la réponse d'un outil
+export function textOf(result: any): string {
+  return result.content.map((item: any) => item.text).join('\n');
+}
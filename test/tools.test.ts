@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { MockKapaServer } from './support/mock-kapa-server';
+import { TestClient, connectTestClient } from './support/test-client';
+
+describe('tool listing', () => {
+  let kapa: MockKapaServer;
+  let mcp: TestClient;
+
+  before(async () => {
+    kapa = await new MockKapaServer().start();
+    mcp = await connectTestClient(kapa);
+  });
+
+  after(async () => {
+    await mcp.close();
+    await kapa.close();
+  });
+
+  it('lists every tool with an input and output schema', async () => {
+    const { tools } = await mcp.client.listTools();
+
+    assert.deepEqual(tools.map(tool => tool.name).sort(), [
+      'ask_strapi_docs_batch',
+      'cache_stats',
+      'clear_cache',
+      'continue_strapi_thread',
+      'find_strapi_plugin',
+      'get_strapi_best_practices',
+      'get_strapi_code_example',
+      'get_strapi_plugin_info',
+      'list_doc_sections',
+      'plan_strapi_migration',
+      'query_strapi_docs',
+      'rate_strapi_answer',
+      'search_strapi_docs_local',
+      'test_kapa_connection',
+      'troubleshoot_strapi_issue',
+      'usage_report',
+    ]);
+    tools.forEach(tool => {
+      assert.equal(tool.inputSchema.type, 'object', tool.name);
+      assert.ok(tool.outputSchema, `${tool.name} has no outputSchema`);
+    });
+  });
+
+  it('generates input schemas with required fields, limits and project names', async () => {
+    const { tools } = await mcp.client.listTools();
+    const query = tools.find(tool => tool.name === 'query_strapi_docs')!;
+    const properties = query.inputSchema.properties as Record<string, any>;
+
+    assert.deepEqual(query.inputSchema.required, ['query']);
+    assert.equal(properties.query.maxLength, 15000);
+    assert.deepEqual(properties.project.enum, ['default']);
+    assert.deepEqual(properties.format.enum, ['markdown', 'plain', 'json']);
+    assert.ok(properties.sections.items.enum.includes('cloud'));
+    assert.equal(query.inputSchema.additionalProperties, false);
+  });
+
+  it('rejects invalid arguments with InvalidParams before calling Kapa', async () => {
+    kapa.reset();
+
+    await assert.rejects(
+      mcp.client.callTool({ name: 'get_strapi_best_practices', arguments: { topic: '   ' } }),
+      (error: any) => {
+        assert.ok(error instanceof McpError);
+        assert.equal(error.code, ErrorCode.InvalidParams);
+        assert.match(error.message, /topic: Must not be empty/);
+        return true;
+      }
+    );
+    await assert.rejects(
+      mcp.client.callTool({ name: 'query_strapi_docs', arguments: { query: 'x'.repeat(15001) } }),
+      /query: String must contain at most 15000 character\(s\)/
+    );
+    await assert.rejects(
+      mcp.client.callTool({ name: 'query_strapi_docs', arguments: { query: 'hi', sections: ['nope'] } }),
+      /sections\.0: Invalid enum value/
+    );
+    await assert.rejects(
+      mcp.client.callTool({ name: 'query_strapi_docs', arguments: { query: 'hi', project: 'other' } }),
+      /project: Unknown project "other"/
+    );
+    await assert.rejects(
+      mcp.client.callTool({ name: 'no_such_tool', arguments: {} }),
+      /Unknown tool: no_such_tool/
+    );
+
+    assert.equal(kapa.requests.length, 0);
+  });
+
+  it('counts unknown tool names under one label in the usage report', async () => {
+    for (const name of ['no_such_tool', 'another_tool']) {
+      await assert.rejects(mcp.client.callTool({ name, arguments: {} }), /Unknown tool/);
+    }
+
+    const report: any = await mcp.client.callTool({ name: 'usage_report', arguments: {} });
+    const tools = report.structuredContent.tools.map((tool: any) => tool.tool);
+    assert.ok(tools.includes('unknown'));
+    assert.ok(!tools.includes('no_such_tool') && !tools.includes('another_tool'));
+  });
+});